@@ -1,29 +1,49 @@
 import { useEffect, useState, useCallback } from 'react';
-import { Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import { Wifi, WifiOff, RefreshCw, LogOut, Loader2 } from 'lucide-react';
 import { StatusPanel } from './components/StatusPanel';
 import { DeployPanel } from './components/DeployPanel';
 import { VersionInfo } from './components/VersionInfo';
 import { HistoryTable } from './components/HistoryTable';
+import { DeployConsole } from './components/DeployConsole';
+import { LoginPanel } from './components/LoginPanel';
+import { ApprovalsPanel } from './components/ApprovalsPanel';
 import { useWebSocket } from './hooks/useWebSocket';
 import { useStatus } from './hooks/useStatus';
+import { useDeployStream } from './hooks/useDeployStream';
+import { useAuth } from './hooks/useAuth';
+import { useApprovals } from './hooks/useApprovals';
 import { getServices, getConfig } from './lib/api';
-import type { WebSocketMessage, DeployConfig } from './lib/types';
+import type { WebSocketMessage, DeployConfig, DashboardRole } from './lib/types';
 
-function App() {
+interface DashboardProps {
+  /** Logged-in user (users mode) */
+  user?: string;
+  role: DashboardRole;
+  onLogout: () => void;
+}
+
+function Dashboard({ user, role, onLogout }: DashboardProps) {
   const [activeServices, setActiveServices] = useState<string[]>([]);
   const [config, setConfig] = useState<DeployConfig | null>(null);
   const { services, loading, lastUpdated, refresh, handleWebSocketMessage } = useStatus();
+  const deployStream = useDeployStream();
+  const handleDeployMessage = deployStream.handleWebSocketMessage;
+  const approvals = useApprovals();
+  const handleApprovalMessage = approvals.handleWebSocketMessage;
+  const canDeploy = role !== 'viewer';
 
   const onMessage = useCallback(
     (message: WebSocketMessage) => {
       handleWebSocketMessage(message);
+      handleDeployMessage(message);
+      handleApprovalMessage(message);
 
       // Refresh on deploy complete
       if (message.event === 'deploy:complete') {
         setTimeout(refresh, 2000);
       }
     },
-    [handleWebSocketMessage, refresh]
+    [handleWebSocketMessage, handleDeployMessage, handleApprovalMessage, refresh]
   );
 
   const { connected } = useWebSocket(onMessage);
@@ -64,6 +84,20 @@ function App() {
             </div>
 
             <div className="flex items-center gap-4">
+              {user && (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <span>{user}</span>
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-xs capitalize">{role}</span>
+                  <button
+                    onClick={onLogout}
+                    className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Log out"
+                  >
+                    <LogOut className="w-5 h-5" />
+                  </button>
+                </div>
+              )}
+
               <button
                 onClick={refresh}
                 className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
@@ -101,6 +135,13 @@ function App() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Status & Version */}
           <div className="lg:col-span-2 space-y-6">
+            {deployStream.deploys.map((deploy) => (
+              <DeployConsole
+                key={deploy.deploymentId}
+                {...deploy}
+                onClear={() => deployStream.clear(deploy.deploymentId)}
+              />
+            ))}
             <StatusPanel
               services={services}
               loading={loading}
@@ -113,8 +154,15 @@ function App() {
           <div className="space-y-6">
             <DeployPanel
               services={activeServices}
+              canDeploy={canDeploy}
               onDeployStart={refresh}
             />
+            <ApprovalsPanel
+              approvals={approvals.approvals}
+              user={user}
+              canReview={canDeploy}
+              onReviewed={approvals.refresh}
+            />
             <VersionInfo />
           </div>
         </div>
@@ -132,4 +180,28 @@ function App() {
   );
 }
 
+function App() {
+  const { session, loading, submitToken, login, logout } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!session?.authenticated) {
+    return <LoginPanel mode={session?.mode || 'token'} onToken={submitToken} onLogin={login} />;
+  }
+
+  return (
+    <Dashboard
+      user={session.mode === 'users' ? session.user : undefined}
+      role={session.role || 'viewer'}
+      onLogout={logout}
+    />
+  );
+}
+
 export default App;
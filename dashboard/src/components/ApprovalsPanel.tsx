@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { ShieldCheck, Check, X, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { approveDeployment, rejectDeployment } from '../lib/api';
+import type { DeploymentApproval } from '../lib/types';
+
+interface ApprovalsPanelProps {
+  approvals: DeploymentApproval[];
+  /** Logged-in user, who can't approve their own requests */
+  user?: string;
+  canReview: boolean;
+  onReviewed?: () => void;
+}
+
+function getTarget(approval: DeploymentApproval) {
+  return approval.type === 'service' ? `service ${approval.service}` : approval.type;
+}
+
+export function ApprovalsPanel({ approvals, user, canReview, onReviewed }: ApprovalsPanelProps) {
+  const [reviewing, setReviewing] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  if (approvals.length === 0 && !message) {
+    return null;
+  }
+
+  const handleReview = async (approval: DeploymentApproval, action: 'approve' | 'reject') => {
+    setReviewing(approval.id);
+    setMessage(null);
+
+    const response = action === 'approve'
+      ? await approveDeployment(approval.id)
+      : await rejectDeployment(approval.id);
+
+    if (response.success) {
+      setMessage({
+        type: 'success',
+        text: action === 'approve'
+          ? `Request #${approval.id} approved, deployment started`
+          : `Request #${approval.id} rejected`,
+      });
+    } else {
+      setMessage({ type: 'error', text: response.error || `Failed to ${action} request` });
+    }
+
+    setReviewing(null);
+    onReviewed?.();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-semibold">Pending Approvals</h2>
+      </div>
+
+      <div className="grid gap-2">
+        {approvals.map((approval) => {
+          const ownRequest = approval.requested_by === user;
+
+          return (
+            <div key={approval.id} className="p-3 border rounded-lg text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium capitalize">
+                  {getTarget(approval)} → {approval.environment}
+                </span>
+                <span className="text-gray-500">#{approval.id}</span>
+              </div>
+              <p className="text-gray-500 mt-1">
+                {approval.requested_by} · {format(new Date(approval.created_at), 'MMM d, HH:mm')}
+              </p>
+
+              {canReview && (
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => handleReview(approval, 'approve')}
+                    disabled={reviewing !== null || ownRequest}
+                    title={ownRequest ? 'Another user has to approve your request' : undefined}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-green-700 border border-green-200 rounded hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {reviewing === approval.id ? (
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                    ) : (
+                      <Check className="w-3 h-3" />
+                    )}
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleReview(approval, 'reject')}
+                    disabled={reviewing !== null}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-red-700 border border-red-200 rounded hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <X className="w-3 h-3" />
+                    Reject
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {message && (
+        <div
+          className={`mt-4 p-3 rounded-lg text-sm ${
+            message.type === 'success'
+              ? 'bg-green-100 text-green-700'
+              : 'bg-red-100 text-red-700'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from 'react';
+import { Terminal, CheckCircle, XCircle, Loader2, X, Square } from 'lucide-react';
+import { cancelDeployment } from '../lib/api';
+import type { DeployStreamState } from '../hooks/useDeployStream';
+import type { DeployOutputData } from '../lib/types';
+
+interface DeployConsoleProps extends DeployStreamState {
+  onClear: () => void;
+}
+
+function getLineColor(type: DeployOutputData['type']) {
+  if (type === 'stderr') return 'text-red-400';
+  if (type === 'stdout') return 'text-gray-300';
+  return 'text-sky-300';
+}
+
+export function DeployConsole({
+  deploymentId,
+  running,
+  label,
+  progress,
+  lines,
+  result,
+  onClear,
+}: DeployConsoleProps) {
+  const outputRef = useRef<HTMLDivElement>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+
+  // Keep the console scrolled to the latest line
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [lines]);
+
+  if (!running && !result && lines.length === 0) {
+    return null;
+  }
+
+  async function handleCancel() {
+    setCancelling(true);
+    setCancelError(null);
+
+    const response = await cancelDeployment(deploymentId);
+    if (!response.success) {
+      setCancelling(false);
+      setCancelError(response.error || 'Failed to cancel deployment');
+    }
+  }
+
+  const percent = progress && progress.total > 0
+    ? Math.round(((running ? progress.current - 1 : progress.total) / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Terminal className="w-5 h-5 text-primary-600" />
+          <h2 className="text-lg font-semibold">Deployment</h2>
+          {label && <span className="text-sm text-gray-500 capitalize">{label}</span>}
+          {deploymentId > 0 && <span className="text-sm text-gray-500">#{deploymentId}</span>}
+        </div>
+
+        <div className="flex items-center gap-3">
+          {running ? (
+            <span className="flex items-center gap-1 text-sm text-primary-600">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {cancelling ? 'Cancelling' : 'Running'}
+            </span>
+          ) : result?.cancelled ? (
+            <span className="flex items-center gap-1 text-sm text-yellow-700">
+              <Square className="w-4 h-4" />
+              Cancelled
+            </span>
+          ) : result?.success ? (
+            <span className="flex items-center gap-1 text-sm text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Completed
+            </span>
+          ) : result ? (
+            <span className="flex items-center gap-1 text-sm text-red-700">
+              <XCircle className="w-4 h-4" />
+              Failed
+            </span>
+          ) : null}
+
+          {running && deploymentId > 0 && (
+            <button
+              onClick={handleCancel}
+              disabled={cancelling}
+              className="px-2 py-1 text-xs text-red-700 border border-red-200 rounded hover:bg-red-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
+
+          {!running && (
+            <button
+              onClick={onClear}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+              title="Clear"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="mb-4">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>
+              Step {progress.current}/{progress.total}: <span className="font-medium">{progress.step}</span>
+            </span>
+            <span>{percent}%</span>
+          </div>
+          <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${
+                result && !result.success ? 'bg-red-500' : 'bg-primary-600'
+              }`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div
+        ref={outputRef}
+        className="h-72 overflow-y-auto bg-gray-900 rounded-lg p-3 font-mono text-xs leading-relaxed"
+      >
+        {lines.length === 0 ? (
+          <p className="text-gray-500">Waiting for output...</p>
+        ) : (
+          lines.map((line, i) => (
+            <div key={i} className={`whitespace-pre-wrap break-all ${getLineColor(line.type)}`}>
+              {line.line}
+            </div>
+          ))
+        )}
+      </div>
+
+      {cancelError && (
+        <div className="mt-4 p-3 rounded-lg text-sm bg-red-100 text-red-700">{cancelError}</div>
+      )}
+
+      {result?.error && !result.cancelled && (
+        <div className="mt-4 p-3 rounded-lg text-sm bg-red-100 text-red-700">{result.error}</div>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,12 @@ import type { Environment } from '../lib/types';
 
 interface DeployPanelProps {
   services: string[];
+  /** Viewers can watch but not deploy */
+  canDeploy?: boolean;
   onDeployStart?: () => void;
 }
 
-export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
+export function DeployPanel({ services, canDeploy = true, onDeployStart }: DeployPanelProps) {
   const [deploying, setDeploying] = useState<string | null>(null);
   const [env, setEnv] = useState<Environment>('production');
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -28,8 +30,17 @@ export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
         response = await deployService(type, { env });
       }
 
-      if (response.success) {
-        setMessage({ type: 'success', text: response.data?.message || 'Deployment started' });
+      if (response.success && response.data?.status === 'pending_approval') {
+        setMessage({
+          type: 'success',
+          text: `Waiting for approval from another user (request #${response.data.approvalId})`,
+        });
+      } else if (response.success) {
+        const text = response.data?.message || 'Deployment started';
+        setMessage({
+          type: 'success',
+          text: response.data?.deploymentId ? `${text} (#${response.data.deploymentId})` : text,
+        });
       } else {
         setMessage({ type: 'error', text: response.error || 'Deployment failed' });
       }
@@ -55,7 +66,7 @@ export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
           value={env}
           onChange={(e) => setEnv(e.target.value as Environment)}
           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
-          disabled={deploying !== null}
+          disabled={deploying !== null || !canDeploy}
         >
           <option value="development">Development</option>
           <option value="stage">Stage</option>
@@ -66,7 +77,7 @@ export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
       <div className="grid gap-2">
         <button
           onClick={() => handleDeploy('all')}
-          disabled={deploying !== null}
+          disabled={deploying !== null || !canDeploy}
           className="flex items-center justify-center gap-2 w-full px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {deploying === 'all' ? (
@@ -79,7 +90,7 @@ export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
 
         <button
           onClick={() => handleDeploy('backend')}
-          disabled={deploying !== null}
+          disabled={deploying !== null || !canDeploy}
           className="flex items-center justify-center gap-2 w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {deploying === 'backend' ? (
@@ -98,7 +109,7 @@ export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
                 <button
                   key={service}
                   onClick={() => handleDeploy(service)}
-                  disabled={deploying !== null}
+                  disabled={deploying !== null || !canDeploy}
                   className="flex items-center justify-between px-3 py-1.5 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   <span>{service}</span>
@@ -112,6 +123,10 @@ export function DeployPanel({ services, onDeployStart }: DeployPanelProps) {
         )}
       </div>
 
+      {!canDeploy && (
+        <p className="mt-4 text-sm text-gray-500">Your role can view deployments but not start them.</p>
+      )}
+
       {message && (
         <div
           className={`mt-4 p-3 rounded-lg text-sm ${
@@ -78,7 +78,7 @@ export function HistoryTable() {
                           ? 'bg-green-100 text-green-700'
                           : d.status === 'failed'
                           ? 'bg-red-100 text-red-700'
-                          : d.status === 'in_progress'
+                          : d.status === 'in_progress' || d.status === 'cancelled'
                           ? 'bg-yellow-100 text-yellow-700'
                           : 'bg-gray-100 text-gray-700'
                       }`}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import type { AuthSession } from '../lib/types';
+
+interface LoginPanelProps {
+  mode: AuthSession['mode'];
+  onToken: (token: string) => Promise<boolean>;
+  onLogin: (username: string, password: string) => Promise<string | null>;
+}
+
+export function LoginPanel({ mode, onToken, onLogin }: LoginPanelProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    if (mode === 'users') {
+      const loginError = await onLogin(username, password);
+      if (loginError) {
+        setError(loginError);
+      }
+    } else if (!(await onToken(token.trim()))) {
+      setError('Invalid access token');
+    }
+
+    setSubmitting(false);
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Lock className="w-5 h-5 text-primary-600" />
+          <h1 className="text-lg font-semibold">Deploy Toolkit</h1>
+        </div>
+
+        {mode === 'users' ? (
+          <>
+            <input
+              className={inputClass}
+              placeholder="Username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+            <input
+              className={inputClass}
+              type="password"
+              placeholder="Password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Open the URL printed by <code className="font-mono">deploy dashboard</code>, or paste its access token.
+            </p>
+            <input
+              className={`${inputClass} font-mono`}
+              placeholder="Access token"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+            />
+          </>
+        )}
+
+        {error && <div className="p-3 rounded-lg text-sm bg-red-100 text-red-700">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+        >
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Sign in
+        </button>
+      </form>
+    </div>
+  );
+}
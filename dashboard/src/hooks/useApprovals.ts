@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getApprovals } from '../lib/api';
+import type { DeploymentApproval, WebSocketMessage } from '../lib/types';
+
+export function useApprovals() {
+  const [approvals, setApprovals] = useState<DeploymentApproval[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchApprovals = useCallback(async () => {
+    const response = await getApprovals('pending');
+    if (response.success && response.data) {
+      setApprovals(response.data.approvals);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to fetch approvals');
+    }
+  }, []);
+
+  // Requests are created, approved and rejected by other users
+  const handleWebSocketMessage = useCallback(
+    (message: WebSocketMessage) => {
+      if (message.event === 'approval:update') {
+        fetchApprovals();
+      }
+    },
+    [fetchApprovals]
+  );
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
+  return {
+    approvals,
+    error,
+    refresh: fetchApprovals,
+    handleWebSocketMessage,
+  };
+}
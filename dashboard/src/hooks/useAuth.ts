@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSession, login as apiLogin, logout as apiLogout } from '../lib/api';
+import {
+  setAuthToken,
+  clearAuthToken,
+  takeTokenFromUrl,
+  UNAUTHORIZED_EVENT,
+} from '../lib/auth';
+import type { AuthSession } from '../lib/types';
+
+export function useAuth() {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshSession = useCallback(async () => {
+    const response = await getSession();
+    const current = response.success && response.data ? response.data : null;
+    setSession(current);
+    setLoading(false);
+    return current;
+  }, []);
+
+  useEffect(() => {
+    takeTokenFromUrl();
+    refreshSession();
+
+    // Token expired or revoked (e.g. dashboard restarted with a new token)
+    const onUnauthorized = () => {
+      clearAuthToken();
+      setSession((prev) => (prev ? { ...prev, authenticated: false, user: undefined } : prev));
+    };
+
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+  }, [refreshSession]);
+
+  // Token mode: use the access token printed by `deploy dashboard`
+  const submitToken = useCallback(
+    async (token: string): Promise<boolean> => {
+      setAuthToken(token);
+      const current = await refreshSession();
+
+      if (!current?.authenticated) {
+        clearAuthToken();
+        return false;
+      }
+
+      return true;
+    },
+    [refreshSession]
+  );
+
+  // Users mode: log in with a configured user
+  const login = useCallback(
+    async (username: string, password: string): Promise<string | null> => {
+      const response = await apiLogin(username, password);
+
+      if (!response.success || !response.data) {
+        return response.error || 'Login failed';
+      }
+
+      setAuthToken(response.data.token);
+      await refreshSession();
+      return null;
+    },
+    [refreshSession]
+  );
+
+  const logout = useCallback(async () => {
+    await apiLogout();
+    clearAuthToken();
+    await refreshSession();
+  }, [refreshSession]);
+
+  return { session, loading, submitToken, login, logout };
+}
@@ -0,0 +1,101 @@
+import { useState, useCallback } from 'react';
+import type {
+  DeployCompleteData,
+  DeployOutputData,
+  DeployProgressData,
+  WebSocketMessage,
+} from '../lib/types';
+
+const MAX_LINES = 1000;
+
+export interface DeployStreamState {
+  deploymentId: number;
+  running: boolean;
+  label: string | null;
+  progress: DeployProgressData | null;
+  lines: DeployOutputData[];
+  result: { success: boolean; error?: string; cancelled?: boolean } | null;
+}
+
+function createDeploy(deploymentId: number, label: string | null = null): DeployStreamState {
+  return {
+    deploymentId,
+    running: true,
+    label,
+    progress: null,
+    lines: [],
+    result: null,
+  };
+}
+
+/**
+ * Apply an update to one deployment, creating it if its start event was missed
+ */
+function updateDeploy(
+  deploys: DeployStreamState[],
+  deploymentId: number,
+  update: (deploy: DeployStreamState) => DeployStreamState
+): DeployStreamState[] {
+  if (!deploys.some((deploy) => deploy.deploymentId === deploymentId)) {
+    return [update(createDeploy(deploymentId)), ...deploys];
+  }
+
+  return deploys.map((deploy) => (deploy.deploymentId === deploymentId ? update(deploy) : deploy));
+}
+
+export function useDeployStream() {
+  const [deploys, setDeploys] = useState<DeployStreamState[]>([]);
+
+  // Handle WebSocket deploy events, grouped by deployment id
+  const handleWebSocketMessage = useCallback((message: WebSocketMessage) => {
+    switch (message.event) {
+      case 'deploy:start': {
+        const data = message.data as { deploymentId: number; type: string; service?: string };
+        const label = data.service ? `${data.type}: ${data.service}` : data.type;
+        setDeploys((prev) => [
+          createDeploy(data.deploymentId, label),
+          ...prev.filter((deploy) => deploy.deploymentId !== data.deploymentId),
+        ]);
+        break;
+      }
+      case 'deploy:progress': {
+        const data = message.data as DeployProgressData;
+        setDeploys((prev) =>
+          updateDeploy(prev, data.deploymentId ?? 0, (deploy) => ({
+            ...deploy,
+            running: true,
+            progress: data,
+          }))
+        );
+        break;
+      }
+      case 'deploy:output': {
+        const data = message.data as DeployOutputData;
+        setDeploys((prev) =>
+          updateDeploy(prev, data.deploymentId ?? 0, (deploy) => ({
+            ...deploy,
+            lines: [...deploy.lines, data].slice(-MAX_LINES),
+          }))
+        );
+        break;
+      }
+      case 'deploy:complete': {
+        const data = message.data as DeployCompleteData;
+        setDeploys((prev) =>
+          updateDeploy(prev, data.deploymentId, (deploy) => ({
+            ...deploy,
+            running: false,
+            result: { success: data.success, error: data.error, cancelled: data.cancelled },
+          }))
+        );
+        break;
+      }
+    }
+  }, []);
+
+  const clear = useCallback((deploymentId: number) => {
+    setDeploys((prev) => prev.filter((deploy) => deploy.deploymentId !== deploymentId));
+  }, []);
+
+  return { deploys, handleWebSocketMessage, clear };
+}
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import type { WebSocketMessage } from '../lib/types';
+import { getAuthToken } from '../lib/auth';
 
 type MessageHandler = (message: WebSocketMessage) => void;
 
@@ -15,7 +16,8 @@ export function useWebSocket(onMessage?: MessageHandler) {
     }
 
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    const token = encodeURIComponent(getAuthToken() || '');
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws?token=${token}`);
 
     ws.onopen = () => {
       setConnected(true);
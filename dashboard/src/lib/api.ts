@@ -5,7 +5,12 @@ import type {
   DeploymentRecord,
   DeployedVersionInfo,
   Environment,
+  AuthSession,
+  DeployResponse,
+  DeploymentApproval,
+  ApprovalStatus,
 } from './types';
+import { getAuthToken, UNAUTHORIZED_EVENT } from './auth';
 
 const API_BASE = '/api';
 
@@ -14,19 +19,45 @@ async function fetchApi<T>(
   options?: RequestInit
 ): Promise<ApiResponse<T>> {
   try {
+    const token = getAuthToken();
     const response = await fetch(`${API_BASE}${endpoint}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options?.headers,
       },
     });
+
+    if (response.status === 401 && !endpoint.startsWith('/auth/')) {
+      window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    }
+
     return await response.json();
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
+// Auth
+export async function getSession(): Promise<ApiResponse<AuthSession>> {
+  return fetchApi<AuthSession>('/auth/session');
+}
+
+export async function login(
+  username: string,
+  password: string
+): Promise<ApiResponse<{ token: string; user: string }>> {
+  return fetchApi<{ token: string; user: string }>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+}
+
+export async function logout(): Promise<ApiResponse<void>> {
+  return fetchApi<void>('/auth/logout', { method: 'POST' });
+}
+
 // Config
 export async function getConfig(): Promise<ApiResponse<DeployConfig>> {
   return fetchApi<DeployConfig>('/config');
@@ -63,8 +94,8 @@ export async function deployAll(options?: {
   env?: Environment;
   skipMigrations?: boolean;
   skipHealthCheck?: boolean;
-}): Promise<ApiResponse<{ deploymentId: number; status: string; message: string }>> {
-  return fetchApi<{ deploymentId: number; status: string; message: string }>(
+}): Promise<ApiResponse<DeployResponse>> {
+  return fetchApi<DeployResponse>(
     '/deploy/all',
     {
       method: 'POST',
@@ -77,8 +108,8 @@ export async function deployBackend(options?: {
   env?: Environment;
   skipMigrations?: boolean;
   skipHealthCheck?: boolean;
-}): Promise<ApiResponse<{ deploymentId: number; status: string; message: string }>> {
-  return fetchApi<{ deploymentId: number; status: string; message: string }>(
+}): Promise<ApiResponse<DeployResponse>> {
+  return fetchApi<DeployResponse>(
     '/deploy/backend',
     {
       method: 'POST',
@@ -93,8 +124,8 @@ export async function deployService(
     env?: Environment;
     skipHealthCheck?: boolean;
   }
-): Promise<ApiResponse<{ deploymentId: number; status: string; message: string }>> {
-  return fetchApi<{ deploymentId: number; status: string; message: string }>(
+): Promise<ApiResponse<DeployResponse>> {
+  return fetchApi<DeployResponse>(
     `/deploy/service/${serviceName}`,
     {
       method: 'POST',
@@ -103,6 +134,31 @@ export async function deployService(
   );
 }
 
+export async function cancelDeployment(
+  deploymentId: number
+): Promise<ApiResponse<{ deploymentId: number; status: string }>> {
+  return fetchApi<{ deploymentId: number; status: string }>(
+    `/deployments/${deploymentId}/cancel`,
+    { method: 'POST' }
+  );
+}
+
+// Approvals
+export async function getApprovals(
+  status?: ApprovalStatus
+): Promise<ApiResponse<{ approvals: DeploymentApproval[] }>> {
+  const params = status ? `?status=${status}` : '';
+  return fetchApi<{ approvals: DeploymentApproval[] }>(`/approvals${params}`);
+}
+
+export async function approveDeployment(approvalId: number): Promise<ApiResponse<DeployResponse>> {
+  return fetchApi<DeployResponse>(`/approvals/${approvalId}/approve`, { method: 'POST' });
+}
+
+export async function rejectDeployment(approvalId: number): Promise<ApiResponse<DeploymentApproval>> {
+  return fetchApi<DeploymentApproval>(`/approvals/${approvalId}/reject`, { method: 'POST' });
+}
+
 // History
 export async function getHistory(
   limit = 10,
@@ -0,0 +1,32 @@
+const TOKEN_KEY = 'deplokit-token';
+
+/**
+ * Event dispatched when the API rejects the stored token
+ */
+export const UNAUTHORIZED_EVENT = 'deplokit:unauthorized';
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setAuthToken(token: string): void {
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+export function clearAuthToken(): void {
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/**
+ * Keep the access token of the URL printed by `deploy dashboard` and remove it from the address bar
+ */
+export function takeTokenFromUrl(): void {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('token');
+
+  if (token) {
+    setAuthToken(token);
+    url.searchParams.delete('token');
+    window.history.replaceState(null, '', url.toString());
+  }
+}
@@ -1,6 +1,6 @@
 export type Environment = 'development' | 'stage' | 'production';
 export type DeploymentType = 'full' | 'backend' | 'frontend' | 'service';
-export type DeploymentStatus = 'pending' | 'in_progress' | 'success' | 'failed' | 'rolled_back';
+export type DeploymentStatus = 'pending' | 'in_progress' | 'success' | 'failed' | 'rolled_back' | 'cancelled';
 
 export interface ServiceStatus {
   name: string;
@@ -20,11 +20,13 @@ export interface DeploymentRecord {
   duration?: number;
   status: DeploymentStatus;
   logs?: string;
+  images?: string;
   user: string;
 }
 
 export interface DeployedVersionInfo {
   commitHash: string;
+  backendCommitHash?: string;
   commitMessage?: string;
   timestamp: string;
   environment: Environment;
@@ -55,8 +57,66 @@ export interface ApiResponse<T = unknown> {
   error?: string;
 }
 
+export type DashboardRole = 'viewer' | 'deployer' | 'admin';
+
+export interface AuthSession {
+  mode: 'token' | 'users';
+  authenticated: boolean;
+  user?: string;
+  role?: DashboardRole;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface DeploymentApproval {
+  id: number;
+  created_at: string;
+  environment: Environment;
+  type: DeploymentType;
+  service?: string;
+  options?: string;
+  requested_by: string;
+  status: ApprovalStatus;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  deployment_id?: number;
+}
+
+export interface DeployResponse {
+  deploymentId?: number;
+  approvalId?: number;
+  status: 'started' | 'completed' | 'failed' | 'pending_approval';
+  message: string;
+}
+
 export interface WebSocketMessage {
   event: string;
   data: unknown;
   timestamp: string;
 }
+
+export interface DeployProgressData {
+  step: string;
+  current: number;
+  total: number;
+  deploymentId?: number;
+  deploymentType: DeploymentType;
+  environment: Environment;
+  service?: string;
+}
+
+export interface DeployOutputData {
+  line: string;
+  type: 'stdout' | 'stderr' | 'info';
+  deploymentId?: number;
+}
+
+export interface DeployCompleteData {
+  success: boolean;
+  deploymentId: number;
+  duration: number;
+  error?: string;
+  cancelled?: boolean;
+  type: DeploymentType;
+  service?: string;
+}
@@ -1,21 +1,61 @@
 #!/usr/bin/env bun
 import { Command } from 'commander';
 import { deployAll, deployFrontend, deployBackend, deployService } from './lib/actions';
-import { runMigrations } from './lib/prisma';
+import { runMigrations, getPrismaOptions } from './lib/prisma';
 import { runHealthCheck, showDetailedStatus } from './lib/health-check';
 import { printContainerStatus } from './lib/docker';
-import { printDeploymentHistory, rollback, printDeploymentStats } from './lib/history';
-import { loadDeployConfig, getSSHConfig, getActiveServices } from './lib/config';
-import { printInfo, printHeader } from './lib/utils';
+import { printDeploymentHistory, printDeploymentDetails, rollback, printDeploymentStats } from './lib/history';
+import {
+  loadDeployConfig,
+  ConfigLoadError,
+  findConfigFile,
+  readConfigFile,
+  setConfigFile,
+  getSSHConfig,
+  getActiveServices,
+  ENVIRONMENTS,
+  type Environment,
+} from './lib/config';
+import {
+  printInfo,
+  printError,
+  printHeader,
+  printSuccess,
+  printWarning,
+  isCI,
+  isJsonOutput,
+  setRuntimeOptions,
+} from './lib/utils';
+import { deployEvents, cancelDeployRuns, type DeployEvent, type DeployResult } from './lib/events';
 import { showInteractiveMenu } from './lib/menu';
-import type { Environment } from './lib/config';
 
 const program = new Command();
 
 program
   .name('deploy')
   .description('Deploy Manager - Universal deployment toolkit')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-y, --yes', 'Answer prompts automatically (non-interactive mode, implied by CI=true except for production deploys)')
+  .option('--non-interactive', 'Alias of --yes')
+  .option('--json', 'Print machine-readable JSON events on stdout (logs go to stderr)')
+  .option('--config <path>', 'Config file to use (default: DEPLOKIT_CONFIG or the nearest deploy config upward)')
+  .option('--cwd <dir>', 'Run as if started in this directory');
+
+// Opciones globales: directorio y config, modo no interactivo y salida JSON
+program.hook('preAction', () => {
+  const opts = program.opts();
+
+  applyProjectOptions();
+
+  setRuntimeOptions({
+    nonInteractive: Boolean(opts.yes || opts.nonInteractive) || isCI(),
+    assumeYes: Boolean(opts.yes || opts.nonInteractive),
+  });
+
+  if (opts.json && !isJsonOutput()) {
+    enableJsonOutput();
+  }
+});
 
 // Comando: deploy all
 program
@@ -25,17 +65,21 @@ program
   .option('--skip-migrations', 'Skip Prisma migrations')
   .option('--skip-health-check', 'Skip health check after deploy')
   .option('--skip-validations', 'Skip pre-deploy validations')
+  .option('--allow-dirty', 'Deploy with uncommitted changes without asking')
+  .option('--skip-build-check', 'Skip the frontend build check in validations')
+  .option('--dry-run', 'Print the deployment plan without changing anything')
   .action(async (options) => {
-    try {
-      await deployAll({
+    await runDeployCommand(() =>
+      deployAll({
         env: normalizeEnvironment(options.env),
         skipMigrations: options.skipMigrations,
         skipHealthCheck: options.skipHealthCheck,
         skipValidations: options.skipValidations,
-      });
-    } catch (error) {
-      process.exit(1);
-    }
+        allowDirty: options.allowDirty,
+        skipBuildCheck: options.skipBuildCheck,
+        dryRun: options.dryRun,
+      })
+    );
   });
 
 // Comando: deploy frontend
@@ -43,14 +87,20 @@ program
   .command('frontend')
   .description('Deploy frontend only (Next.js)')
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
+  .option('--skip-health-check', 'Skip health check after deploy')
+  .option('--skip-validations', 'Skip pre-deploy validations')
+  .option('--allow-dirty', 'Deploy with uncommitted changes without asking')
+  .option('--dry-run', 'Print the deployment plan without changing anything')
   .action(async (options) => {
-    try {
-      await deployFrontend({
+    await runDeployCommand(() =>
+      deployFrontend({
         env: normalizeEnvironment(options.env),
-      });
-    } catch (error) {
-      process.exit(1);
-    }
+        skipHealthCheck: options.skipHealthCheck,
+        skipValidations: options.skipValidations,
+        allowDirty: options.allowDirty,
+        dryRun: options.dryRun,
+      })
+    );
   });
 
 // Comando: deploy backend
@@ -60,16 +110,20 @@ program
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
   .option('--skip-migrations', 'Skip Prisma migrations')
   .option('--skip-health-check', 'Skip health check after deploy')
+  .option('--allow-dirty', 'Deploy with uncommitted changes without asking')
+  .option('--changed', 'Only deploy services changed since the deployed commit')
+  .option('--dry-run', 'Print the deployment plan without changing anything')
   .action(async (options) => {
-    try {
-      await deployBackend({
+    await runDeployCommand(() =>
+      deployBackend({
         env: normalizeEnvironment(options.env),
         skipMigrations: options.skipMigrations,
         skipHealthCheck: options.skipHealthCheck,
-      });
-    } catch (error) {
-      process.exit(1);
-    }
+        allowDirty: options.allowDirty,
+        changed: options.changed,
+        dryRun: options.dryRun,
+      })
+    );
   });
 
 // Comando: deploy service <name>
@@ -79,17 +133,18 @@ program
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
   .option('--skip-health-check', 'Skip health check after deploy')
   .option('--skip-validations', 'Skip pre-deploy validations')
+  .option('--allow-dirty', 'Deploy with uncommitted changes without asking')
+  .option('--dry-run', 'Print the deployment plan without changing anything')
   .action(async (serviceName, options) => {
-    try {
-      await deployService(serviceName, {
+    await runDeployCommand(() =>
+      deployService(serviceName, {
         env: normalizeEnvironment(options.env),
         skipHealthCheck: options.skipHealthCheck,
         skipValidations: options.skipValidations,
-      });
-    } catch (error) {
-      console.error(error);
-      process.exit(1);
-    }
+        allowDirty: options.allowDirty,
+        dryRun: options.dryRun,
+      })
+    );
   });
 
 // Opcion global: --service=api (compatibilidad con bash script)
@@ -102,8 +157,8 @@ program
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
   .action(async (options) => {
     try {
-      const config = loadDeployConfig();
       const env = normalizeEnvironment(options.env);
+      const config = await loadDeployConfig(env);
 
       printInfo(`Running migrations for environment: ${env}`);
 
@@ -111,18 +166,10 @@ program
         const sshConfig = getSSHConfig(config);
 
         if (sshConfig) {
-          await runMigrations({
-            remote: {
-              path: config.deployment.path,
-              ssh: {
-                target: sshConfig.target,
-                sshKey: config.deployment.ssh_key,
-              },
-            },
-          });
+          await runMigrations(getPrismaOptions(config, sshConfig.options));
         }
       } else {
-        await runMigrations();
+        await runMigrations(getPrismaOptions(config));
       }
     } catch (error) {
       process.exit(1);
@@ -137,20 +184,21 @@ program
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
   .action(async (options) => {
     try {
-      const config = loadDeployConfig();
+      const config = await loadDeployConfig(normalizeEnvironment(options.env));
       const sshConfig = getSSHConfig(config);
 
-      await runHealthCheck(config, {
+      const healthy = await runHealthCheck(config, {
         remote: sshConfig
           ? {
               path: config.deployment.path,
-              ssh: {
-                target: sshConfig.target,
-                sshKey: config.deployment.ssh_key,
-              },
+              ssh: sshConfig.options,
             }
           : undefined,
       });
+
+      if (!healthy) {
+        process.exit(1);
+      }
     } catch (error) {
       process.exit(1);
     }
@@ -163,19 +211,17 @@ program
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
   .action(async (options) => {
     try {
-      const config = loadDeployConfig();
+      const config = await loadDeployConfig(normalizeEnvironment(options.env));
       const sshConfig = getSSHConfig(config);
 
       await showDetailedStatus({
         remote: sshConfig
           ? {
               path: config.deployment.path,
-              ssh: {
-                target: sshConfig.target,
-                sshKey: config.deployment.ssh_key,
-              },
+              ssh: sshConfig.options,
             }
           : undefined,
+        config,
       });
     } catch (error) {
       process.exit(1);
@@ -183,7 +229,7 @@ program
   });
 
 // Comando: deploy history
-program
+const historyCommand = program
   .command('history')
   .description('Show deployment history')
   .option('-l, --limit <number>', 'Number of records to show', '10')
@@ -195,6 +241,19 @@ program
     printDeploymentHistory(limit, env);
   });
 
+// Comando: deploy history show <id>
+historyCommand
+  .command('show <id>')
+  .description('Show the step timeline and command output of a deployment')
+  .option('--no-output', 'Only show the step timeline')
+  .action((id, options) => {
+    const found = printDeploymentDetails(parseInt(id, 10), { output: options.output });
+
+    if (!found) {
+      process.exit(1);
+    }
+  });
+
 // Comando: deploy stats
 program
   .command('stats')
@@ -227,9 +286,10 @@ program
 program
   .command('services')
   .description('List available services from configuration')
-  .action(() => {
+  .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
+  .action(async (options) => {
     try {
-      const config = loadDeployConfig();
+      const config = await loadDeployConfig(normalizeEnvironment(options.env));
       const activeServices = getActiveServices(config);
 
       printHeader(`Available Services - ${config.project.name}`);
@@ -251,7 +311,11 @@ program
 program
   .command('dashboard')
   .description('Start the web dashboard for deployment management')
-  .option('-p, --port <port>', 'Port to run dashboard on', '4200')
+  .option('-p, --port <port>', 'Port to run dashboard on (default: dashboard.port or 4200)')
+  .option('--host <host>', 'Interface to bind, e.g. 0.0.0.0 (default: dashboard.host or 127.0.0.1)')
+  .option('--tls-cert <path>', 'TLS certificate (PEM) to serve over HTTPS')
+  .option('--tls-key <path>', 'TLS private key (PEM)')
+  .option('-e, --env <environment>', 'Default environment: dev|stage|prod', 'production')
   .option('--no-open', 'Do not automatically open browser')
   .action(async (options) => {
     try {
@@ -260,7 +324,11 @@ program
       printHeader('DEPLOY DASHBOARD');
 
       await startDashboard({
-        port: parseInt(options.port),
+        port: options.port ? parseInt(options.port) : undefined,
+        host: options.host,
+        tlsCert: options.tlsCert,
+        tlsKey: options.tlsKey,
+        env: normalizeEnvironment(options.env),
         open: options.open !== false,
       });
     } catch (error) {
@@ -269,15 +337,170 @@ program
     }
   });
 
+// Comando: deploy hash-password
+program
+  .command('hash-password')
+  .description('Hash a password for dashboard.users (reads it from stdin when piped)')
+  .action(async () => {
+    try {
+      const { hashDashboardPassword } = await import('./lib/server/auth');
+
+      let password: string;
+
+      if (process.stdin.isTTY) {
+        const readline = await import('readline');
+        const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+        password = await new Promise(resolve => rl.question('Password: ', answer => {
+          rl.close();
+          resolve(answer);
+        }));
+      } else {
+        password = (await Bun.stdin.text()).replace(/\r?\n$/, '');
+      }
+
+      if (!password) {
+        console.error('Password cannot be empty');
+        process.exit(1);
+      }
+
+      process.stdout.write(`${await hashDashboardPassword(password)}\n`);
+    } catch (error) {
+      console.error(`Failed to hash password: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// Comando: deploy lock status|release
+const lockCommand = program
+  .command('lock')
+  .description('Manage the deploy lock on the deployment target');
+
+lockCommand
+  .command('status')
+  .description('Show who holds the deploy lock')
+  .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
+  .action(async (options) => {
+    try {
+      const config = await loadDeployConfig(normalizeEnvironment(options.env));
+      const { getDeployLock, printDeployLock } = await import('./lib/lock');
+
+      printDeployLock(await getDeployLock(config));
+    } catch (error) {
+      console.error(`Failed to read deploy lock: ${error}`);
+      process.exit(1);
+    }
+  });
+
+lockCommand
+  .command('release')
+  .description('Remove a stale deploy lock')
+  .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
+  .option('--force', 'Remove the lock even if another deployment holds it')
+  .action(async (options) => {
+    try {
+      const config = await loadDeployConfig(normalizeEnvironment(options.env));
+      const { getDeployLock, releaseDeployLock, printDeployLock } = await import('./lib/lock');
+
+      const lock = await getDeployLock(config);
+
+      if (!lock) {
+        printInfo('No deploy lock held');
+        return;
+      }
+
+      printDeployLock(lock);
+
+      if (!options.force) {
+        printWarning('Only release the lock if that deployment is no longer running');
+        printInfo('Re-run with --force to remove it');
+        process.exit(1);
+      }
+
+      await releaseDeployLock(config, lock, { force: true });
+      printSuccess('Deploy lock released');
+    } catch (error) {
+      console.error(`Failed to release deploy lock: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// Comando: deploy config validate|schema
+const configCommand = program
+  .command('config')
+  .description('Check the deploy configuration');
+
+configCommand
+  .command('validate [file]')
+  .description('Validate the deploy config (deploy-config.json or deploy.config.ts) against the schema')
+  .option('-e, --env <environment>', 'Environment passed to config functions: dev|stage|prod', 'production')
+  .action(async (file: string | undefined, options) => {
+    const { validateDeployConfig, printConfigIssues } = await import('./lib/config-schema');
+    const configFile = file || findConfigFile();
+
+    if (!configFile) {
+      console.error('Configuration file not found');
+      process.exit(1);
+    }
+
+    let issues;
+
+    try {
+      issues = validateDeployConfig(await readConfigFile(configFile, normalizeEnvironment(options.env)));
+    } catch (error) {
+      console.error(`Failed to read ${configFile}: ${error}`);
+      process.exit(1);
+    }
+
+    if (isJsonOutput()) {
+      process.stdout.write(JSON.stringify({ type: 'result', file: configFile, valid: issues.length === 0, issues }) + '\n');
+    } else if (issues.length > 0) {
+      printConfigIssues(configFile, issues);
+    } else {
+      printSuccess(`${configFile} is valid`);
+    }
+
+    if (issues.length > 0) {
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('schema')
+  .description('Print the JSON Schema of deploy-config.json')
+  .action(async () => {
+    const { DEPLOY_CONFIG_SCHEMA } = await import('./lib/config-schema');
+    process.stdout.write(`${JSON.stringify(DEPLOY_CONFIG_SCHEMA, null, 2)}\n`);
+  });
+
+// Comando: deploy doctor
+program
+  .command('doctor')
+  .description('Show which config file and project root are used and check them')
+  .option('-e, --env <environment>', 'Environment passed to config functions: dev|stage|prod', 'production')
+  .action(async (options) => {
+    const { getDoctorReport, printDoctorReport } = await import('./lib/doctor');
+    const report = await getDoctorReport(normalizeEnvironment(options.env));
+
+    if (isJsonOutput()) {
+      process.stdout.write(JSON.stringify({ type: 'result', ...report }) + '\n');
+    } else {
+      printHeader('Deplokit Doctor');
+      printDoctorReport(report);
+    }
+
+    if (!report.ok) {
+      process.exit(1);
+    }
+  });
+
 // Comando: deploy version
 program
   .command('version')
   .description('Show currently deployed version on VPS')
   .option('-e, --env <environment>', 'Environment: dev|stage|prod', 'production')
-  .option('--json', 'Output as JSON')
   .action(async (options) => {
     try {
-      const config = loadDeployConfig();
+      const config = await loadDeployConfig(normalizeEnvironment(options.env));
       const sshConfig = getSSHConfig(config);
 
       if (!sshConfig || config.deployment.type !== 'remote') {
@@ -290,14 +513,11 @@ program
 
       printInfo('Fetching deployed version from VPS...');
 
-      const version = await getDeployedVersion(config.deployment.path, {
-        target: sshConfig.target,
-        sshKey: config.deployment.ssh_key,
-      });
+      const version = await getDeployedVersion(config.deployment.path, sshConfig.options);
 
       if (version) {
-        if (options.json) {
-          console.log(JSON.stringify(version, null, 2));
+        if (isJsonOutput()) {
+          process.stdout.write(JSON.stringify(version, null, 2) + '\n');
         } else {
           printDeployedVersion(version);
         }
@@ -311,6 +531,100 @@ program
     }
   });
 
+/**
+ * Modo --json: stdout solo lleva eventos JSON (uno por linea), los logs van a stderr
+ */
+function enableJsonOutput(): void {
+  setRuntimeOptions({ json: true });
+
+  console.log = console.error;
+  console.info = console.error;
+
+  deployEvents.on('event', (event: DeployEvent) => {
+    // La salida legible ya va a stderr; stdout solo lleva eventos de estado
+    if (event.type === 'deploy:output') {
+      return;
+    }
+
+    process.stdout.write(JSON.stringify(event) + '\n');
+  });
+}
+
+/**
+ * Ejecuta un comando de deploy: en modo --json emite el resultado final y
+ * sale con codigo 1 si el deploy falla (130 si se cancela con Ctrl+C)
+ */
+async function runDeployCommand(task: () => Promise<void>): Promise<void> {
+  let result: DeployResult | undefined;
+  let interrupted = false;
+
+  const onEvent = (event: DeployEvent) => {
+    if (event.type === 'deploy:complete') {
+      result = event.result;
+    }
+  };
+
+  // Ctrl+C cancela el deploy (limpieza, lock e historial); un segundo Ctrl+C sale sin esperar
+  const onInterrupt = () => {
+    if (interrupted || cancelDeployRuns() === 0) {
+      process.exit(130);
+    }
+
+    interrupted = true;
+    printWarning('Cancelling deployment... (press Ctrl+C again to quit immediately)');
+  };
+
+  deployEvents.on('event', onEvent);
+  process.on('SIGINT', onInterrupt);
+
+  let error: unknown;
+
+  try {
+    await task();
+  } catch (err) {
+    error = err;
+  } finally {
+    deployEvents.off('event', onEvent);
+    process.off('SIGINT', onInterrupt);
+  }
+
+  const exitCode = error ? (interrupted ? 130 : 1) : 0;
+
+  if (isJsonOutput()) {
+    process.stdout.write(
+      JSON.stringify({
+        type: 'result',
+        ...result,
+        success: !error,
+        exitCode,
+        error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+      }) + '\n'
+    );
+  }
+
+  if (exitCode !== 0) {
+    process.exit(exitCode);
+  }
+}
+
+/**
+ * Aplica --cwd (cambia de directorio) y --config (relativo al nuevo directorio)
+ */
+function applyProjectOptions(): void {
+  const opts = program.opts();
+
+  if (opts.cwd) {
+    try {
+      process.chdir(opts.cwd);
+    } catch {
+      console.error(`Directory not found: ${opts.cwd}`);
+      process.exit(1);
+    }
+  }
+
+  setConfigFile(opts.config);
+}
+
 /**
  * Normaliza el nombre del entorno
  */
@@ -331,8 +645,9 @@ function normalizeEnvironment(env: string): Environment {
       return 'production';
 
     default:
-      printInfo(`Unknown environment '${env}', defaulting to production`);
-      return 'production';
+      // El entorno elige servidor y configuración: nunca se cae a producción por una errata
+      printError(`Unknown environment '${env}' (expected ${ENVIRONMENTS.join(', ')} or dev, staging, prod)`);
+      process.exit(1);
   }
 }
 
@@ -346,7 +661,10 @@ const hasServiceFlag = program.opts().service;
 if (!hasCommands) {
   // Sin argumentos → Menu interactivo
   showInteractiveMenu().catch((error) => {
-    console.error(error);
+    // Los errores de configuración ya se han mostrado al cargarla
+    if (!(error instanceof ConfigLoadError)) {
+      console.error(error);
+    }
     process.exit(1);
   });
 } else if (hasServiceFlag && !program.commands.some((cmd) => process.argv.includes(cmd.name()))) {
@@ -357,7 +675,9 @@ if (!hasCommands) {
   deployService(serviceName, {
     env: normalizeEnvironment(env),
   }).catch((error) => {
-    console.error(error);
+    if (!(error instanceof ConfigLoadError)) {
+      console.error(error);
+    }
     process.exit(1);
   });
 }
@@ -4,31 +4,86 @@
 // Config
 export {
   loadDeployConfig,
+  ConfigLoadError,
+  readConfigFile,
   findConfigFile,
+  resolveConfigLocation,
+  setConfigFile,
+  CONFIG_FILE_NAMES,
+  ENVIRONMENTS,
+  isEnvironment,
+  resolveEnvironmentConfig,
   getProjectPaths,
+  getComposeConfig,
+  DEFAULT_COMPOSE_FILES,
+  getSyncEntries,
+  DEFAULT_SYNC_EXCLUDE,
   getSSHConfig,
+  getSSHConnectionArgs,
   getActiveServices,
   isServiceActive,
   validateService,
   normalizeServiceName,
   getDockerComposeServiceName,
   getServiceHealthEndpoint,
+  isFrontendEnabled,
+  getFrontendServiceName,
+  getUnhealthyPolicy,
+  hasRollbackPolicy,
   detectEnvironment,
   printConfigSummary,
   defineConfig,
   type DeployType,
+  type BuildMode,
+  type UnhealthyPolicy,
   type Environment,
   type ProjectConfig,
   type DeploymentConfig,
+  type StrictHostKeyChecking,
+  type SSHConnectionOptions,
   type DatabaseConfig,
   type ServiceConfig,
   type ServicesConfig,
   type SecretsConfig,
   type PathsConfig,
+  type ComposeConfig,
+  type ResolvedComposeConfig,
+  type SyncEntry,
+  type FrontendBuildMode,
+  type FrontendConfig,
+  type HookTarget,
+  type HookCommand,
+  type HookEntry,
+  type HooksConfig,
+  type HookName,
+  type DashboardRole,
+  type DashboardUser,
+  type DashboardTLSConfig,
+  type DashboardConfig,
+  type EnvironmentConfig,
+  type EnvironmentsConfig,
   type DeployConfig,
+  type DeployConfigContext,
+  type DeployConfigFactory,
+  type DeployConfigExport,
+  type ConfigSource,
+  type ConfigLocation,
   type ProjectPaths,
 } from './lib/config';
 
+// Config schema
+export {
+  DEPLOY_CONFIG_SCHEMA,
+  validateDeployConfig,
+  formatConfigIssue,
+  printConfigIssues,
+  type JSONSchema,
+  type ConfigValidationIssue,
+} from './lib/config-schema';
+
+// Doctor
+export { getDoctorReport, printDoctorReport, type DoctorReport } from './lib/doctor';
+
 // Actions
 export {
   deployAll,
@@ -38,26 +93,85 @@ export {
   type DeployOptions,
 } from './lib/actions';
 
+// Deploy events
+export {
+  deployEvents,
+  withDeployRun,
+  beginStep,
+  setRunDeploymentId,
+  recordCommandOutput,
+  getRunProgress,
+  cancelDeployRuns,
+  isRunCancelled,
+  trackRunProcess,
+  DeploymentCancelledError,
+  type CommandOutput,
+  type DeployRunProgress,
+  type DeployEventType,
+  type DeployEvent,
+  type DeployStepResult,
+  type DeployResult,
+  type DeployRunInfo,
+} from './lib/events';
+
+// Hooks
+export {
+  runHook,
+  getHookCommands,
+  type HookContext,
+  type RunHookOptions,
+} from './lib/hooks';
+
+// Deploy lock
+export {
+  DEPLOY_LOCK_FILE,
+  DeployLockError,
+  getDeployLock,
+  acquireDeployLock,
+  releaseDeployLock,
+  printDeployLock,
+  type DeployLockInfo,
+  type AcquireLockOptions,
+} from './lib/lock';
+
 // SSH
 export {
   checkSSHConnection,
+  isSSHMultiplexingEnabled,
+  getSSHArgs,
+  openSSHConnection,
+  closeSSHConnections,
   executeRemoteCommand,
+  shellQuote,
+  remoteCommand,
   createRemoteDirectory,
   syncFilesToRemote,
+  syncManifest,
+  getSyncDirectories,
+  getSyncDestination,
+  DEPLOY_IGNORE_FILE,
   syncBackendFolder,
   syncSharedFolder,
   syncRootFiles,
+  syncFrontendBuild,
+  syncFrontendFolder,
   wrapWithBunPath,
   generateFilteredPackageJson,
   cleanupDeploymentFiles,
   installRemoteDependencies,
   type SSHOptions,
+  type RemoteCommandValue,
   type RsyncOptions,
+  type SyncOptions,
   type WorkspaceFilter,
 } from './lib/ssh';
 
 // Docker
 export {
+  getComposeArgs,
+  getLocalComposeOptions,
+  getRemoteComposeDir,
+  getRemoteComposeCommand,
   dockerComposePull,
   dockerComposeUp,
   dockerComposeDown,
@@ -69,8 +183,20 @@ export {
   checkContainersHealth,
   checkDockerDaemon,
   checkDockerComposeFile,
+  getRemoteComposeImages,
+  tagRemoteComposeImages,
+  restoreRemoteComposeImages,
+  getLocalComposeImages,
+  getComposeServices,
+  transferImagesToRemote,
+  getRegistryImageRef,
+  pushImagesToRegistry,
+  pullRemoteRegistryImages,
   type DockerOptions,
   type ContainerStatus,
+  type DeployedImage,
+  type RemoteDockerOptions,
+  type ComposeImage,
 } from './lib/docker';
 
 // Prisma
@@ -81,6 +207,7 @@ export {
   getMigrationList,
   hasPendingMigrations,
   printMigrationInfo,
+  getPrismaOptions,
   type PrismaOptions,
 } from './lib/prisma';
 
@@ -88,9 +215,12 @@ export {
 export {
   checkBackendServices,
   checkAPIEndpoints,
+  checkFrontendHealth,
   waitForContainers,
   runHealthCheck,
+  runDetailedHealthCheck,
   showDetailedStatus,
+  UnhealthyDeploymentError,
   type HealthCheckResult,
   type HealthCheckOptions,
 } from './lib/health-check';
@@ -99,20 +229,35 @@ export {
 export {
   saveDeployment,
   updateDeploymentStatus,
+  saveDeploymentImages,
+  saveDeploymentStep,
+  getDeploymentSteps,
+  getDeploymentImages,
   getDeploymentHistory,
   getLastSuccessfulDeployment,
   getDeploymentById,
   printDeploymentHistory,
+  printDeploymentDetails,
   markAsRolledBack,
   rollback,
   cleanOldDeployments,
   getDeploymentStats,
   printDeploymentStats,
   getCurrentCommitHash,
+  saveApprovalRequest,
+  getApprovalRequest,
+  getApprovalRequests,
+  reviewApprovalRequest,
+  setApprovalDeploymentId,
   type DeploymentType,
   type DeploymentStatus,
   type DeploymentRecord,
+  type DeploymentStepRecord,
   type SaveDeploymentOptions,
+  type SaveDeploymentStepOptions,
+  type ApprovalStatus,
+  type DeploymentApprovalRecord,
+  type SaveApprovalRequestOptions,
 } from './lib/history';
 
 // Validation
@@ -133,6 +278,11 @@ export {
 // Utils
 export {
   colors,
+  isCI,
+  setRuntimeOptions,
+  isNonInteractive,
+  isAssumeYes,
+  isJsonOutput,
   printSuccess,
   printError,
   printWarning,
@@ -149,6 +299,7 @@ export {
   truncate,
   formatBytes,
   printTable,
+  type RuntimeOptions,
 } from './lib/utils';
 
 // Menu
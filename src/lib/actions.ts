@@ -1,4 +1,14 @@
-import { printHeader, printSuccess, printError, printInfo, printWarning, handleError, formatTime } from './utils';
+import {
+  printHeader,
+  printSuccess,
+  printError,
+  printInfo,
+  printWarning,
+  formatTime,
+  runWithSpinner,
+  execCommand,
+  colors,
+} from './utils';
 import {
   loadDeployConfig,
   getProjectPaths,
@@ -9,40 +19,94 @@ import {
   validateService,
   isServiceActive,
   getActiveServices,
+  isFrontendEnabled,
+  getFrontendServiceName,
+  getUnhealthyPolicy,
+  hasRollbackPolicy,
+  getSyncEntries,
   type Environment,
   type DeployConfig,
 } from './config';
 import {
   dockerComposePull,
   dockerComposeUp,
+  dockerComposeBuild,
+  getLocalComposeImages,
+  transferImagesToRemote,
+  pushImagesToRegistry,
+  pullRemoteRegistryImages,
   checkContainersExist,
   printContainerStatus,
+  tagRemoteComposeImages,
+  restoreRemoteComposeImages,
+  getLocalComposeOptions,
+  getRemoteComposeCommand,
+  getComposeServices,
+  type DeployedImage,
 } from './docker';
 import {
   createRemoteDirectory,
-  syncBackendFolder,
-  syncSharedFolder,
+  syncManifest,
+  getSyncDirectories,
   syncRootFiles,
+  syncFrontendBuild,
+  syncFrontendFolder,
   installRemoteDependencies,
   executeRemoteCommand,
+  remoteCommand,
+  shellQuote,
+  type SSHOptions,
   type WorkspaceFilter,
 } from './ssh';
-import { runMigrations, printMigrationInfo } from './prisma';
+import { runMigrations, checkMigrationStatus, getPrismaOptions, type PrismaOptions } from './prisma';
 import { runPreDeployValidations, confirmProductionDeploy } from './validation';
-import { runHealthCheck, waitForContainers } from './health-check';
+import {
+  runHealthCheck,
+  runDetailedHealthCheck,
+  waitForContainers,
+  checkFrontendHealth,
+  UnhealthyDeploymentError,
+  type HealthCheckResult,
+} from './health-check';
 import {
   saveDeployment,
   updateDeploymentStatus,
+  saveDeploymentImages,
   getCurrentCommitHash,
   type DeploymentType,
+  type SaveDeploymentOptions,
 } from './history';
+import { runHook, getHookCommands, type HookContext } from './hooks';
+import { withDeployRun, beginStep, setRunDeploymentId, planRunSteps, isRunCancelled } from './events';
+import { acquireDeployLock, releaseDeployLock, type DeployLockInfo } from './lock';
 import {
   writeDeployedVersion,
+  getDeployedVersion,
+  getChangedFilesSince,
   getCurrentCommitMessage,
   getCurrentUser,
   type DeployedVersionInfo,
 } from './version';
 
+/**
+ * Workspace de cada servicio activo del backend (api y workers)
+ */
+function getServiceWorkspaces(config: DeployConfig): Record<string, string> {
+  const backendPath = config.paths?.backend || 'packages/backend';
+  const workspaces: Record<string, string> = {};
+
+  for (const service of getActiveServices(config)) {
+    if (service === 'api') {
+      workspaces[service] = `${backendPath}/api`;
+    } else if (service.includes('worker')) {
+      // Convertir snake_case a path (pdf_worker -> pdf-worker)
+      workspaces[service] = `${backendPath}/${service.replace(/_/g, '-')}`;
+    }
+  }
+
+  return workspaces;
+}
+
 /**
  * Genera workspace filters dinamicamente basado en la configuracion
  * Cada proyecto puede tener diferente estructura de workspaces
@@ -60,17 +124,15 @@ function getWorkspaceFilters(config: DeployConfig): {
   const sharedPath = (paths.shared || 'packages/shared') + '/*';
 
   // Para backend, incluir API, backend-shared y todos los workers activos
-  const backendWorkspaces = [`${backendPath}/api`, `${backendPath}/shared`, sharedPath];
-
-  // Agregar workers activos como workspaces
-  const activeServices = getActiveServices(config);
-  for (const service of activeServices) {
-    if (service !== 'api' && service.includes('worker')) {
-      // Convertir snake_case a path (pdf_worker -> pdf-worker)
-      const workerPath = service.replace(/_/g, '-');
-      backendWorkspaces.push(`${backendPath}/${workerPath}`);
-    }
-  }
+  const serviceWorkspaces = getServiceWorkspaces(config);
+  const backendWorkspaces = [
+    serviceWorkspaces.api || `${backendPath}/api`,
+    `${backendPath}/shared`,
+    sharedPath,
+    ...Object.entries(serviceWorkspaces)
+      .filter(([service]) => service !== 'api')
+      .map(([, workspace]) => workspace),
+  ];
 
   return {
     backend: {
@@ -93,23 +155,303 @@ export interface DeployOptions {
   skipMigrations?: boolean;
   skipHealthCheck?: boolean;
   skipValidations?: boolean;
+  dryRun?: boolean;
+  /** Continuar con cambios sin commitear (sin prompt) */
+  allowDirty?: boolean;
+  /** No ejecutar el build check de las validaciones */
+  skipBuildCheck?: boolean;
+  /** Backend: desplegar solo los servicios con cambios desde el commit desplegado */
+  changed?: boolean;
+  /** Deploy lanzado desde deployAll: los hooks preDeploy/postDeploy/onFailure los ejecuta el padre */
+  nested?: boolean;
+  /** Registro de historial ya creado (dashboard): se usa en lugar de crear uno nuevo */
+  deploymentId?: number;
+  /** Usuario que confirmó el deploy en el dashboard (sustituye a la confirmación interactiva de producción) */
+  confirmedBy?: string;
+}
+
+/**
+ * Confirmación de un deploy a producción: interactiva en el CLI, o la del
+ * usuario que lo aprobó en el dashboard
+ */
+async function confirmProduction(options: DeployOptions): Promise<boolean> {
+  if (options.confirmedBy) {
+    printInfo(`Production deploy confirmed by ${options.confirmedBy}`);
+    return true;
+  }
+
+  return confirmProductionDeploy();
+}
+
+/**
+ * Registro de historial del deploy: el creado por quien lanza el deploy o uno nuevo
+ */
+function startDeploymentRecord(
+  options: DeployOptions,
+  record: Omit<SaveDeploymentOptions, 'status'>
+): number {
+  if (options.deploymentId !== undefined) {
+    updateDeploymentStatus(options.deploymentId, 'in_progress');
+    return options.deploymentId;
+  }
+
+  return saveDeployment({ ...record, status: 'in_progress' });
+}
+
+/**
+ * Muestra una accion que se ejecutaria (modo dry-run)
+ */
+function printPlanned(message: string): void {
+  console.log(colors.gray(`  [dry-run] ${message}`));
+}
+
+/**
+ * Ejecuta un comando remoto del deploy, o solo lo muestra en modo dry-run
+ */
+async function runRemoteDeployCommand(
+  command: string,
+  sshOptions: SSHOptions,
+  options: DeployOptions
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  if (options.dryRun) {
+    printPlanned(`ssh ${sshOptions.target} ${shellQuote(command)}`);
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+
+  return executeRemoteCommand(command, sshOptions);
+}
+
+/**
+ * Crea los directorios remotos del deploy, o solo los muestra en modo dry-run
+ */
+async function ensureRemoteDirectories(
+  directories: string[],
+  sshOptions: SSHOptions,
+  options: DeployOptions
+): Promise<void> {
+  for (const directory of directories) {
+    if (options.dryRun) {
+      printPlanned(`mkdir -p ${directory}`);
+    } else {
+      await createRemoteDirectory(directory, sshOptions);
+    }
+  }
+}
+
+/**
+ * Ejecuta un hook de inicio/fin de deploy como paso propio (si esta configurado)
+ */
+async function runHookStep(
+  name: 'preDeploy' | 'postDeploy',
+  config: DeployConfig,
+  context: HookContext,
+  options: DeployOptions
+): Promise<void> {
+  if (getHookCommands(config, name).length === 0) {
+    return;
+  }
+
+  beginStep(`hook:${name}`);
+  await runHook(name, config, context, { dryRun: options.dryRun });
+}
+
+/**
+ * Ejecuta el hook onFailure sin ocultar el error original del deploy
+ */
+async function runFailureHook(config: DeployConfig, context: HookContext, error: unknown): Promise<void> {
+  try {
+    await runHook('onFailure', config, {
+      ...context,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } catch (hookError) {
+    printWarning(`onFailure hook failed: ${hookError instanceof Error ? hookError.message : hookError}`);
+  }
+}
+
+/**
+ * Toma el lock del target para un deploy (los deploys anidados usan el del padre)
+ */
+async function lockDeployment(
+  config: DeployConfig,
+  context: HookContext,
+  options: DeployOptions
+): Promise<DeployLockInfo | undefined> {
+  if (options.nested) {
+    return undefined;
+  }
+
+  return acquireDeployLock(config, {
+    environment: context.environment,
+    deploymentType: context.deploymentType,
+    deploymentId: context.deploymentId,
+    service: context.service,
+  });
+}
+
+/**
+ * Libera el lock del deploy sin ocultar el resultado del deploy
+ */
+async function unlockDeployment(config: DeployConfig, lock?: DeployLockInfo): Promise<void> {
+  if (!lock) {
+    return;
+  }
+
+  try {
+    await releaseDeployLock(config, lock);
+  } catch (error) {
+    printWarning(`Failed to release deploy lock: ${error}`);
+    printInfo('Release it manually with: deploy lock release --force');
+  }
+}
+
+/**
+ * Registra en el historial un deploy fallido
+ * Un health check fallido guarda los resultados en los logs (rolled_back si se restauró)
+ * Un deploy cancelado (Ctrl+C o dashboard) queda como cancelled
+ */
+function recordDeploymentFailure(deploymentId: number, startTime: Date, error: unknown): void {
+  const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
+
+  if (isRunCancelled()) {
+    updateDeploymentStatus(deploymentId, 'cancelled', duration, String(error));
+    printWarning(`Deployment #${deploymentId} cancelled`);
+    return;
+  }
+
+  if (error instanceof UnhealthyDeploymentError) {
+    updateDeploymentStatus(
+      deploymentId,
+      error.rolledBack ? 'rolled_back' : 'failed',
+      duration,
+      JSON.stringify({ error: error.message, healthChecks: error.results }, null, 2)
+    );
+    return;
+  }
+
+  updateDeploymentStatus(deploymentId, 'failed', duration, String(error));
+}
+
+/**
+ * Pasos previstos del backend (para el progreso del deploy)
+ * Con --changed los pasos reales dependen de los servicios afectados
+ */
+function getBackendSteps(config: DeployConfig, options: DeployOptions): string[] {
+  const healthCheck = options.skipHealthCheck ? [] : ['health-check'];
+
+  if (config.deployment.type !== 'remote') {
+    return ['migrations', 'rollout', ...healthCheck];
+  }
+
+  return ['sync', 'build', 'migrations', 'rollout', ...healthCheck, 'finalize'];
+}
+
+/**
+ * Pasos previstos del deploy de un servicio
+ */
+function getServiceSteps(config: DeployConfig, options: DeployOptions): string[] {
+  const healthCheck = options.skipHealthCheck ? [] : ['health-check'];
+
+  if (config.deployment.type !== 'remote') {
+    return ['rollout', ...healthCheck];
+  }
+
+  const build = (config.deployment.build || 'remote') === 'remote' ? [] : ['build'];
+
+  return ['sync', 'install', ...build, 'rollout', ...healthCheck, 'finalize'];
+}
+
+/**
+ * Pasos previstos del frontend
+ */
+function getFrontendSteps(config: DeployConfig, options: DeployOptions): string[] {
+  const build = (config.frontend?.build || 'local') === 'local' ? ['frontend:build'] : [];
+  const healthCheck = options.skipHealthCheck ? [] : ['frontend:health-check'];
+
+  if (config.deployment.type !== 'remote') {
+    return [...build, 'frontend:rollout', ...healthCheck];
+  }
+
+  return [...build, 'frontend:sync', 'frontend:rollout', ...healthCheck, 'finalize'];
+}
+
+/**
+ * Añade a los pasos de un deploy las validaciones y los hooks de inicio/fin
+ */
+function withDeploySteps(config: DeployConfig, options: DeployOptions, steps: string[]): string[] {
+  const hook = (name: 'preDeploy' | 'postDeploy') =>
+    getHookCommands(config, name).length > 0 ? [`hook:${name}`] : [];
+
+  return [
+    ...(options.skipValidations || options.dryRun ? [] : ['validations']),
+    ...hook('preDeploy'),
+    ...steps,
+    ...hook('postDeploy'),
+  ];
+}
+
+/**
+ * Imprime el encabezado de un plan de deploy (modo dry-run)
+ */
+function printDryRunHeader(config: DeployConfig, environment: Environment): void {
+  printWarning('DRY RUN - no changes will be made');
+  printConfigSummary(config, environment);
 }
 
 /**
  * Deploy completo (backend + frontend)
  */
 export async function deployAll(options: DeployOptions = {}): Promise<void> {
+  return withDeployRun(
+    {
+      deploymentType: 'full',
+      environment: options.env || 'production',
+      dryRun: options.dryRun,
+      deploymentId: options.deploymentId,
+    },
+    () => runDeployAll(options)
+  );
+}
+
+async function runDeployAll(options: DeployOptions): Promise<void> {
   const startTime = new Date();
 
   printHeader('DEPLOY COMPLETO - BACKEND + FRONTEND');
 
-  const config = loadDeployConfig();
-  const paths = getProjectPaths(config);
   const environment = options.env || 'production';
+  const config = await loadDeployConfig(environment);
+  const paths = getProjectPaths(config);
+
+  planRunSteps(
+    withDeploySteps(config, options, [
+      ...getBackendSteps(config, options),
+      ...(isFrontendEnabled(config) ? getFrontendSteps(config, options) : []),
+      ...(options.skipHealthCheck || options.dryRun ? [] : ['final-health-check']),
+    ])
+  );
+
+  if (options.dryRun) {
+    const context: HookContext = { environment, deploymentType: 'full' };
+
+    printDryRunHeader(config, environment);
+
+    await runHookStep('preDeploy', config, context, options);
+
+    await deployBackend({ ...options, deploymentId: undefined, skipValidations: true, nested: true });
+
+    if (isFrontendEnabled(config)) {
+      await deployFrontend({ ...options, deploymentId: undefined, skipValidations: true, nested: true });
+    }
+
+    await runHookStep('postDeploy', config, context, options);
+
+    printSuccess('Dry run complete - no changes were made');
+    return;
+  }
 
   // Confirmacion para produccion
   if (environment === 'production') {
-    const confirmed = await confirmProductionDeploy();
+    const confirmed = await confirmProduction(options);
     if (!confirmed) {
       return;
     }
@@ -117,39 +459,55 @@ export async function deployAll(options: DeployOptions = {}): Promise<void> {
 
   // Crear registro de deployment
   const commitHash = await getCurrentCommitHash();
-  const deploymentId = saveDeployment({
+  const deploymentId = startDeploymentRecord(options, {
     environment,
     type: 'full',
     commitHash,
-    status: 'in_progress',
   });
 
+  setRunDeploymentId(deploymentId);
+
+  const context: HookContext = { deploymentId, environment, deploymentType: 'full', commitHash };
+  let lock: DeployLockInfo | undefined;
+
   try {
+    lock = await lockDeployment(config, context, options);
+
     // Validaciones pre-deploy
     if (!options.skipValidations) {
+      beginStep('validations');
+
       const validation = await runPreDeployValidations(config, {
         environment,
         deployType: 'full',
+        allowDirty: options.allowDirty,
+        skipBuildCheck: options.skipBuildCheck,
       });
 
       if (!validation.passed) {
-        updateDeploymentStatus(deploymentId, 'failed', undefined, 'Pre-deploy validation failed');
         printError('Deployment cancelled due to validation failures');
-        return;
+        throw new Error(`Pre-deploy validation failed: ${validation.errors.join('; ')}`);
       }
     }
 
     // Mostrar configuracion
-    printConfigSummary(config);
+    printConfigSummary(config, environment);
+
+    await runHookStep('preDeploy', config, context, options);
 
     // Deploy backend
-    await deployBackend({ ...options, skipValidations: true });
+    await deployBackend({ ...options, deploymentId: undefined, skipValidations: true, nested: true });
 
-    // TODO: Deploy frontend (futuro)
-    printInfo('Frontend deployment not yet implemented');
+    // Deploy frontend
+    if (isFrontendEnabled(config)) {
+      await deployFrontend({ ...options, deploymentId: undefined, skipValidations: true, nested: true });
+    } else {
+      printInfo('Frontend deployment skipped (no "frontend" section in configuration)');
+    }
 
     // Health check final
     if (!options.skipHealthCheck) {
+      beginStep('final-health-check');
       printHeader('STEP: FINAL HEALTH CHECK');
 
       const sshConfig = getSSHConfig(config);
@@ -158,10 +516,7 @@ export async function deployAll(options: DeployOptions = {}): Promise<void> {
         remote: sshConfig
           ? {
               path: config.deployment.path,
-              ssh: {
-                target: sshConfig.target,
-                sshKey: config.deployment.ssh_key,
-              },
+              ssh: sshConfig.options,
             }
           : undefined,
       });
@@ -171,6 +526,8 @@ export async function deployAll(options: DeployOptions = {}): Promise<void> {
       }
     }
 
+    await runHookStep('postDeploy', config, context, options);
+
     const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
     updateDeploymentStatus(deploymentId, 'success', duration);
 
@@ -178,11 +535,14 @@ export async function deployAll(options: DeployOptions = {}): Promise<void> {
     printSuccess(`Deployment finished in ${formatTime(startTime)}`);
     printInfo(`Deployment ID: #${deploymentId}`);
   } catch (error) {
-    const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
-    updateDeploymentStatus(deploymentId, 'failed', duration, String(error));
+    recordDeploymentFailure(deploymentId, startTime, error);
 
-    printError('Deployment failed');
-    handleError(error, 'deployAll');
+    await runFailureHook(config, context, error);
+
+    printError(`Deployment failed: ${error instanceof Error ? error.message : error}`);
+    throw error;
+  } finally {
+    await unlockDeployment(config, lock);
   }
 }
 
@@ -190,66 +550,138 @@ export async function deployAll(options: DeployOptions = {}): Promise<void> {
  * Deploy solo backend (API + Workers)
  */
 export async function deployBackend(options: DeployOptions = {}): Promise<void> {
+  return withDeployRun(
+    {
+      deploymentType: 'backend',
+      environment: options.env || 'production',
+      dryRun: options.dryRun,
+      deploymentId: options.deploymentId,
+    },
+    () => runDeployBackend(options)
+  );
+}
+
+async function runDeployBackend(options: DeployOptions): Promise<void> {
   const startTime = new Date();
 
   printHeader('DEPLOY BACKEND - API + WORKERS');
 
-  const config = loadDeployConfig();
-  const paths = getProjectPaths(config);
   const environment = options.env || 'production';
+  const config = await loadDeployConfig(environment);
+  const paths = getProjectPaths(config);
+
+  planRunSteps(withDeploySteps(config, options, getBackendSteps(config, options)));
+
+  if (options.dryRun) {
+    const context: HookContext = { environment, deploymentType: 'backend' };
+
+    if (!options.skipValidations) {
+      printDryRunHeader(config, environment);
+    }
+
+    if (!options.nested) {
+      await runHookStep('preDeploy', config, context, options);
+    }
+
+    if (config.deployment.type === 'remote') {
+      await deployBackendRemoteServices(config, paths, options, context);
+    } else {
+      await deployBackendLocal(config, paths, options, context);
+    }
+
+    if (!options.nested) {
+      await runHookStep('postDeploy', config, context, options);
+    }
+
+    if (!options.skipValidations) {
+      printSuccess('Dry run complete - no changes were made');
+    }
+    return;
+  }
 
   // Confirmacion para produccion (si no viene de deployAll)
   if (environment === 'production' && !options.skipValidations) {
-    const confirmed = await confirmProductionDeploy();
+    const confirmed = await confirmProduction(options);
     if (!confirmed) {
       return;
     }
   }
 
   const commitHash = await getCurrentCommitHash();
-  const deploymentId = saveDeployment({
+  const deploymentId = startDeploymentRecord(options, {
     environment,
     type: 'backend',
     commitHash,
-    status: 'in_progress',
   });
 
+  setRunDeploymentId(deploymentId);
+
+  const context: HookContext = { deploymentId, environment, deploymentType: 'backend', commitHash };
+  let lock: DeployLockInfo | undefined;
+
   try {
+    lock = await lockDeployment(config, context, options);
+
     // Validaciones (si no se han hecho ya)
     if (!options.skipValidations) {
+      beginStep('validations');
+
       const validation = await runPreDeployValidations(config, {
         environment,
         deployType: 'backend',
+        allowDirty: options.allowDirty,
+        skipBuildCheck: options.skipBuildCheck,
       });
 
       if (!validation.passed) {
-        updateDeploymentStatus(deploymentId, 'failed', undefined, 'Pre-deploy validation failed');
-        return;
+        throw new Error(`Pre-deploy validation failed: ${validation.errors.join('; ')}`);
       }
 
-      printConfigSummary(config);
+      printConfigSummary(config, environment);
+    }
+
+    if (!options.nested) {
+      await runHookStep('preDeploy', config, context, options);
     }
 
     if (config.deployment.type === 'remote') {
-      await deployBackendRemote(config, paths, options);
+      const deployedServices = await deployBackendRemoteServices(config, paths, options, context);
 
       // Write version file to VPS after successful remote deploy
       const sshConfig = getSSHConfig(config);
       if (sshConfig) {
+        beginStep('finalize');
+
+        const sshOptions = sshConfig.options;
+
+        if (deployedServices.length > 0) {
+          await tagDeploymentImages(config, {
+            deploymentId,
+            commitHash,
+            sshOptions,
+            services: deployedServices.map(s => getDockerComposeServiceName(config, s)),
+          });
+        }
+
         await writeVersionFile(config, {
           environment,
           deploymentType: 'backend',
           deploymentId,
           commitHash,
           startTime,
-          sshOptions: {
-            target: sshConfig.target,
-            sshKey: config.deployment.ssh_key,
-          },
+          sshOptions,
         });
       }
     } else {
-      await deployBackendLocal(config, paths, options);
+      if (options.changed) {
+        printWarning('--changed needs the deployed version file of a remote deployment - deploying all services');
+      }
+
+      await deployBackendLocal(config, paths, options, context);
+    }
+
+    if (!options.nested) {
+      await runHookStep('postDeploy', config, context, options);
     }
 
     const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
@@ -258,12 +690,134 @@ export async function deployBackend(options: DeployOptions = {}): Promise<void>
     printSuccess(`Backend deployment finished in ${formatTime(startTime)}`);
     printInfo(`Deployment ID: #${deploymentId}`);
   } catch (error) {
-    const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
-    updateDeploymentStatus(deploymentId, 'failed', duration, String(error));
+    recordDeploymentFailure(deploymentId, startTime, error);
+
+    if (!options.nested) {
+      await runFailureHook(config, context, error);
+    }
 
     printError('Backend deployment failed');
     throw error;
+  } finally {
+    await unlockDeployment(config, lock);
+  }
+}
+
+/**
+ * Deploy backend remoto: completo o, con --changed, solo los servicios afectados
+ * Devuelve los servicios desplegados
+ */
+async function deployBackendRemoteServices(
+  config: DeployConfig,
+  paths: any,
+  options: DeployOptions,
+  context: HookContext
+): Promise<string[]> {
+  const changedServices = options.changed ? await getChangedServices(config, paths) : null;
+
+  if (changedServices === null) {
+    await deployBackendRemote(config, paths, options, context);
+    return getActiveServices(config);
+  }
+
+  if (changedServices.length === 0) {
+    printSuccess('No backend changes since the deployed commit - nothing to deploy');
+    return [];
+  }
+
+  for (const service of changedServices) {
+    printHeader(`DEPLOY CHANGED SERVICE: ${service.toUpperCase()}`);
+    await deployServiceRemote(service, config, paths, options, { ...context, service });
+  }
+
+  return changedServices;
+}
+
+/**
+ * Commit del último deploy de todo el backend según el archivo de versión
+ * Un deploy de un solo servicio no lo cambia: el resto de servicios sigue en ese commit
+ * (archivos de versión antiguos de un deploy de servicio no lo tienen: undefined)
+ */
+function getBackendBaseCommit(deployed: DeployedVersionInfo): string | undefined {
+  if (deployed.backendCommitHash) {
+    return deployed.backendCommitHash;
+  }
+
+  return deployed.deploymentType === 'service' ? undefined : deployed.commitHash;
+}
+
+/**
+ * Servicios del backend afectados por los cambios desde el commit desplegado en el VPS
+ * Devuelve null cuando hay que desplegar todo (sin version desplegada, commit
+ * desconocido o cambios en codigo compartido)
+ */
+async function getChangedServices(config: DeployConfig, paths: any): Promise<string[] | null> {
+  const sshConfig = getSSHConfig(config);
+
+  if (!sshConfig) {
+    return null;
+  }
+
+  const deployed = await getDeployedVersion(config.deployment.path, sshConfig.options);
+  const baseCommit = deployed ? getBackendBaseCommit(deployed) : undefined;
+
+  if (!baseCommit || baseCommit === 'unknown') {
+    printWarning('No deployed backend version found on VPS - deploying all backend services');
+    return null;
   }
+
+  const files = await getChangedFilesSince(baseCommit, paths.root);
+
+  if (files === null) {
+    printWarning(`Deployed commit ${baseCommit} not found locally - deploying all backend services`);
+    return null;
+  }
+
+  const normalize = (path: string) => path.replace(/^\.\//, '').replace(/\/+$/, '');
+  const isUnder = (file: string, dir: string) => dir === '' || dir === '.' || file === dir || file.startsWith(`${dir}/`);
+
+  const backendPath = normalize(config.paths?.backend || 'packages/backend');
+  const frontendPath = normalize(config.paths?.frontend || 'packages/frontend');
+  const workspaces = Object.entries(getServiceWorkspaces(config)).map(
+    ([service, workspace]) => [service, normalize(workspace)] as const
+  );
+
+  // Codigo compartido: cualquier cambio afecta a todos los servicios
+  const sharedPaths = [
+    `${backendPath}/shared`,
+    normalize(config.paths?.shared || 'packages/shared'),
+    normalize(config.paths?.prisma || 'packages/shared/database/prisma'),
+  ];
+  const rootFiles = ['package.json', 'bun.lock', 'bun.lockb', 'tsconfig.json'];
+
+  printInfo(`Changes since deployed commit ${colors.highlight(baseCommit)}: ${files.length} file(s)`);
+
+  const affected = new Set<string>();
+
+  for (const file of files) {
+    if (rootFiles.includes(file) || sharedPaths.some(dir => isUnder(file, dir))) {
+      printInfo(`Shared file changed (${file}) - deploying all backend services`);
+      return null;
+    }
+
+    const match = workspaces.find(([, workspace]) => isUnder(file, workspace));
+
+    if (match) {
+      affected.add(match[0]);
+    } else if (isUnder(file, backendPath) && !isUnder(file, frontendPath)) {
+      // Dockerfiles, docker-compose, etc. del backend
+      printInfo(`Backend file outside service workspaces changed (${file}) - deploying all backend services`);
+      return null;
+    }
+  }
+
+  const services = [...affected];
+
+  if (services.length > 0) {
+    printInfo(`Services affected: ${services.map(s => colors.highlight(s)).join(', ')}`);
+  }
+
+  return services;
 }
 
 /**
@@ -272,8 +826,10 @@ export async function deployBackend(options: DeployOptions = {}): Promise<void>
 async function deployBackendRemote(
   config: DeployConfig,
   paths: any,
-  options: DeployOptions
+  options: DeployOptions,
+  context: HookContext
 ): Promise<void> {
+  beginStep('sync');
   printHeader('STEP 1: SYNC FILES TO VPS');
 
   const sshConfig = getSSHConfig(config);
@@ -282,68 +838,210 @@ async function deployBackendRemote(
     throw new Error('SSH configuration not available');
   }
 
-  const sshOptions = {
-    target: sshConfig.target,
-    sshKey: config.deployment.ssh_key,
-  };
+  const sshOptions = sshConfig.options;
+
+  const syncEntries = getSyncEntries(config);
 
   // Crear directorios remotos
-  await createRemoteDirectory(config.deployment.path, sshOptions);
-  await createRemoteDirectory(`${config.deployment.path}/packages`, sshOptions);
-  await createRemoteDirectory(`${config.deployment.path}/packages/backend`, sshOptions);
-  await createRemoteDirectory(`${config.deployment.path}/packages/shared`, sshOptions);
+  await ensureRemoteDirectories(
+    getSyncDirectories(paths.root, config.deployment.path, syncEntries),
+    sshOptions,
+    options
+  );
 
   // Obtener workspace filters dinamicos
   const workspaceFilters = getWorkspaceFilters(config);
+  const syncOptions = { dryRun: options.dryRun };
 
   // Sync root files with workspace filtering
   await syncRootFiles(
     paths.root,
     config.deployment.path,
     sshOptions,
-    workspaceFilters.backend
+    workspaceFilters.backend,
+    syncOptions
   );
 
-  // Sync backend folder
-  await syncBackendFolder(paths.root, config.deployment.path, sshOptions);
+  // Sync manifest (paths.backend y paths.shared por defecto)
+  await syncManifest(paths.root, config.deployment.path, syncEntries, sshOptions, syncOptions);
 
-  // Sync shared folder
-  await syncSharedFolder(paths.root, config.deployment.path, sshOptions);
+  await runHook('postSync', config, context, { dryRun: options.dryRun });
 
+  // Imágenes en uso antes del build (el build re-etiqueta los nombres de imagen)
+  const snapshot = await snapshotRollout(config, sshOptions, options, context);
+
+  beginStep('build');
   printHeader('STEP 2: BUILD DOCKER IMAGES');
 
-  // Build images first (without recreating containers)
-  printInfo('Building Docker images...');
-  await executeRemoteCommand(
-    `cd ${config.deployment.path}/packages/backend && docker compose build`,
-    sshOptions
-  );
+  const buildMode = config.deployment.build || 'remote';
+
+  if (buildMode === 'remote') {
+    // Build images first (without recreating containers)
+    printInfo('Building Docker images...');
+    const build = await runRemoteDeployCommand(
+      getRemoteComposeCommand(config.deployment.path, ['build'], config),
+      sshOptions,
+      options
+    );
+
+    // Sin imágenes nuevas no se aplican migraciones ni se toca lo que está corriendo
+    if (build.exitCode !== 0) {
+      printError(build.stderr);
+      throw new Error('Failed to build Docker images');
+    }
+
+    if (!options.dryRun) {
+      printSuccess('Docker images built');
+    }
+  } else {
+    await buildAndShipImages(config, paths, sshOptions, options, context);
+  }
 
-  printSuccess('Docker images built');
+  beginStep('migrations');
+  printHeader('STEP 3: DATABASE MIGRATIONS');
 
-  printHeader('STEP 3: ROLLING UPDATE WITH HEALTH CHECK');
+  await runMigrationStep(config, options, context, getPrismaOptions(config, sshOptions));
+
+  beginStep('rollout');
+  printHeader('STEP 4: ROLLING UPDATE WITH HEALTH CHECK');
 
   // Use --wait flag to wait for containers to be healthy before returning
   // This ensures zero-downtime by keeping old containers running until new ones are healthy
   printInfo('Starting rolling update (waiting for healthy status)...');
 
-  await executeRemoteCommand(
-    `cd ${config.deployment.path}/packages/backend && docker compose up -d --wait --wait-timeout 120`,
-    sshOptions
+  const rollout = await runRemoteDeployCommand(
+    getRemoteComposeCommand(
+      config.deployment.path,
+      ['up', '-d', ...(buildMode === 'remote' ? [] : ['--no-build']), '--wait', '--wait-timeout', '120'],
+      config
+    ),
+    sshOptions,
+    options
   );
 
-  printSuccess('Rolling update complete - all services healthy');
+  if (options.dryRun) {
+    return;
+  }
+
+  const results: DeployCheckResult[] = [];
+
+  if (rollout.exitCode === 0) {
+    printSuccess('Rolling update complete - all services healthy');
+  } else {
+    printError('Rolling update failed - containers did not become healthy');
+    results.push(getRolloutFailure('docker compose', rollout.stderr));
+  }
 
   // Health check
   if (!options.skipHealthCheck) {
-    printHeader('STEP 4: HEALTH CHECK');
+    beginStep('health-check');
+    printHeader('STEP 5: HEALTH CHECK');
+
+    results.push(
+      ...(await runDetailedHealthCheck(config, {
+        remote: {
+          path: config.deployment.path,
+          ssh: sshOptions,
+        },
+      }))
+    );
+  }
 
-    await runHealthCheck(config, {
-      remote: {
-        path: config.deployment.path,
-        ssh: sshOptions,
-      },
-    });
+  await applyUnhealthyPolicy(config, results, { snapshot, sshOptions });
+}
+
+/**
+ * Build local de las imágenes del backend y envío al VPS (deployment.build: local | registry)
+ * En el servidor solo se arrancan los contenedores, sin build
+ */
+async function buildAndShipImages(
+  config: DeployConfig,
+  paths: any,
+  sshOptions: SSHOptions,
+  options: DeployOptions,
+  context: HookContext,
+  service?: string
+): Promise<void> {
+  const buildMode = config.deployment.build || 'remote';
+  const registry = config.deployment.registry;
+  const tag = context.commitHash || 'latest';
+
+  if (buildMode === 'registry' && !registry) {
+    throw new Error('deployment.registry is required when deployment.build is "registry"');
+  }
+
+  if (options.dryRun) {
+    printPlanned(`docker compose build${service ? ` ${service}` : ''} (in ${paths.composeDir})`);
+
+    if (buildMode === 'local') {
+      printPlanned(`docker save <images> | gzip | ssh ${sshOptions.target} 'gunzip | docker load'`);
+    } else {
+      printPlanned(`docker push ${registry}/<image>:${tag}`);
+      printPlanned(`ssh ${sshOptions.target} 'docker pull ${registry}/<image>:${tag}'`);
+    }
+    return;
+  }
+
+  const platform = config.deployment.platform;
+
+  await dockerComposeBuild({
+    ...getLocalComposeOptions(config),
+    service,
+    env: platform ? { DOCKER_DEFAULT_PLATFORM: platform } : undefined,
+  });
+
+  const images = await getLocalComposeImages({ ...getLocalComposeOptions(config), service });
+
+  if (images.length === 0) {
+    printWarning('No services with a build section found in the compose files');
+    return;
+  }
+
+  if (buildMode === 'local') {
+    await transferImagesToRemote(images, sshOptions);
+  } else {
+    await pushImagesToRegistry(images, registry!, tag);
+    await pullRemoteRegistryImages(images, registry!, tag, sshOptions);
+  }
+}
+
+/**
+ * Paso de migraciones: muestra las pendientes y las aplica (salvo --skip-migrations)
+ * Un fallo de migracion aborta el deploy antes de levantar los nuevos contenedores
+ */
+async function runMigrationStep(
+  config: DeployConfig,
+  options: DeployOptions,
+  context: HookContext,
+  prismaOptions: PrismaOptions
+): Promise<void> {
+  printInfo('Checking migration status...');
+
+  const { pending } = await checkMigrationStatus(prismaOptions);
+
+  if (pending.length > 0) {
+    printWarning(`${pending.length} pending migration(s):`);
+    pending.forEach(m => console.log(colors.warning(`  - ${m}`)));
+  } else {
+    printInfo('No pending migrations detected');
+  }
+
+  if (options.skipMigrations) {
+    printWarning('Skipping migrations (--skip-migrations)');
+    return;
+  }
+
+  await runHook('preMigrate', config, context, { dryRun: options.dryRun });
+
+  if (options.dryRun) {
+    printPlanned('prisma migrate deploy');
+    return;
+  }
+
+  try {
+    await runMigrations(prismaOptions);
+  } catch (error: any) {
+    throw new Error(`Migration failed: ${error.message || error}`);
   }
 }
 
@@ -358,7 +1056,7 @@ async function writeVersionFile(
     deploymentId?: number;
     commitHash?: string;
     startTime: Date;
-    sshOptions: { target: string; sshKey?: string };
+    sshOptions: SSHOptions;
   }
 ): Promise<void> {
   try {
@@ -366,8 +1064,19 @@ async function writeVersionFile(
     const activeServices = getActiveServices(config);
     const duration = Math.floor((new Date().getTime() - options.startTime.getTime()) / 1000);
 
+    const commitHash = options.commitHash || 'unknown';
+
+    // Un deploy de servicio conserva la base de --changed del último deploy del backend
+    let backendCommitHash: string | undefined = commitHash;
+
+    if (options.deploymentType === 'service') {
+      const previous = await getDeployedVersion(config.deployment.path, options.sshOptions);
+      backendCommitHash = previous ? getBackendBaseCommit(previous) : undefined;
+    }
+
     const versionInfo: DeployedVersionInfo = {
-      commitHash: options.commitHash || 'unknown',
+      commitHash,
+      backendCommitHash,
       commitMessage,
       timestamp: new Date().toISOString(),
       environment: options.environment,
@@ -391,62 +1100,595 @@ async function writeVersionFile(
   }
 }
 
+/**
+ * Tag deployed Docker images on VPS so they can be restored by rollback
+ */
+async function tagDeploymentImages(
+  config: DeployConfig,
+  options: {
+    deploymentId: number;
+    commitHash?: string;
+    services: string[];
+    sshOptions: SSHOptions;
+  }
+): Promise<void> {
+  const tag = options.commitHash
+    ? `deploy-${options.deploymentId}-${options.commitHash}`
+    : `deploy-${options.deploymentId}`;
+
+  try {
+    const images = await tagRemoteComposeImages(
+      tag,
+      { path: config.deployment.path, ssh: options.sshOptions, config },
+      options.services
+    );
+
+    if (images.length > 0) {
+      saveDeploymentImages(options.deploymentId, images);
+    }
+  } catch (error) {
+    printWarning(`Failed to tag deployed images: ${error}`);
+    printInfo('This deployment will not be available as a rollback target');
+    // Non-fatal - don't fail the deploy
+  }
+}
+
+/**
+ * Estado del servidor antes del rollout (para onUnhealthy: rollback)
+ */
+interface RolloutSnapshot {
+  images: DeployedImage[];
+  version: DeployedVersionInfo | null;
+}
+
+/**
+ * Etiqueta las imágenes en uso y lee la versión desplegada antes de construir las nuevas
+ * Solo se hace si algún servicio usa onUnhealthy: rollback
+ */
+async function snapshotRollout(
+  config: DeployConfig,
+  sshOptions: SSHOptions,
+  options: DeployOptions,
+  context: HookContext,
+  services?: string[]
+): Promise<RolloutSnapshot | undefined> {
+  if (options.dryRun || !hasRollbackPolicy(config)) {
+    return undefined;
+  }
+
+  try {
+    const images = await tagRemoteComposeImages(
+      `pre-deploy-${context.deploymentId ?? Date.now()}`,
+      { path: config.deployment.path, ssh: sshOptions, config },
+      services
+    );
+    const version = await getDeployedVersion(config.deployment.path, sshOptions);
+
+    return { images, version };
+  } catch (error) {
+    printWarning(`Failed to snapshot running images: ${error}`);
+    printInfo('Automatic rollback will not be available for this deployment');
+    return undefined;
+  }
+}
+
+/**
+ * Resultado de health check del deploy; `rollout` marca un docker compose up --wait fallido
+ */
+type DeployCheckResult = HealthCheckResult & { rollout?: boolean };
+
+/**
+ * Resultado de health check para un rollout que no llegó a estar healthy (--wait)
+ */
+function getRolloutFailure(service: string, stderr: string): DeployCheckResult {
+  return {
+    service,
+    healthy: false,
+    message: 'Rollout failed (docker compose up --wait)',
+    details: stderr.trim().split('\n').pop() || undefined,
+    rollout: true,
+  };
+}
+
+/**
+ * Aplica la política onUnhealthy a los health checks del deploy
+ * Si varios servicios fallan, gana la política más estricta (rollback > fail > warn)
+ * Un rollout fallido nunca se queda en warn: falla el deploy, o hace rollback si es la política
+ */
+async function applyUnhealthyPolicy(
+  config: DeployConfig,
+  results: DeployCheckResult[],
+  rollback?: { snapshot?: RolloutSnapshot; sshOptions: SSHOptions }
+): Promise<void> {
+  const unhealthy = results.filter(r => !r.healthy);
+
+  if (unhealthy.length === 0) {
+    return;
+  }
+
+  const policies = unhealthy.map(r => {
+    const policy = getUnhealthyPolicy(config, r.service);
+    return r.rollout && policy === 'warn' ? 'fail' : policy;
+  });
+  const policy = policies.includes('rollback') ? 'rollback' : policies.includes('fail') ? 'fail' : 'warn';
+
+  if (policy === 'warn') {
+    printWarning('Some services are not healthy');
+    return;
+  }
+
+  if (policy === 'rollback') {
+    if (rollback?.snapshot && rollback.snapshot.images.length > 0) {
+      const restored = await restorePreviousRollout(config, rollback.snapshot, rollback.sshOptions);
+      throw new UnhealthyDeploymentError(unhealthy, restored);
+    }
+
+    printWarning(
+      rollback
+        ? 'No previous images to restore - the deployment will be marked as failed'
+        : 'Automatic rollback is only available for remote deployments'
+    );
+  }
+
+  throw new UnhealthyDeploymentError(unhealthy, false);
+}
+
+/**
+ * Vuelve a las imágenes y al archivo de versión anteriores al deploy
+ */
+async function restorePreviousRollout(
+  config: DeployConfig,
+  snapshot: RolloutSnapshot,
+  sshOptions: SSHOptions
+): Promise<boolean> {
+  beginStep('rollback', { cancellable: false });
+  printHeader('ROLLBACK: RESTORING PREVIOUS DEPLOYMENT');
+
+  try {
+    await restoreRemoteComposeImages(snapshot.images, { path: config.deployment.path, ssh: sshOptions, config });
+
+    if (snapshot.version) {
+      await writeDeployedVersion({
+        remotePath: config.deployment.path,
+        ssh: sshOptions,
+        info: snapshot.version,
+      });
+    } else {
+      const versionFile = `${config.deployment.path}/.deployed-version`;
+      await executeRemoteCommand(remoteCommand`rm -f ${versionFile}`, sshOptions);
+    }
+
+    printSuccess('Previous deployment restored');
+    return true;
+  } catch (error) {
+    printError(`Automatic rollback failed: ${error instanceof Error ? error.message : error}`);
+    printInfo('Restore it manually with: deploy rollback');
+    return false;
+  }
+}
+
 /**
  * Deploy backend local
  */
+/**
+ * Levanta los servicios del compose que no son de la app (base de datos, cache, ...)
+ * para que las migraciones tengan contra qué ejecutarse en el primer deploy local
+ */
+async function startLocalDependencies(config: DeployConfig, options: DeployOptions): Promise<void> {
+  const composeOptions = getLocalComposeOptions(config);
+  const appServices = new Set([
+    ...Object.keys(config.services).map(s => getDockerComposeServiceName(config, s)),
+    getFrontendServiceName(config),
+  ]);
+  const dependencies = (await getComposeServices(composeOptions)).filter(s => !appServices.has(s));
+
+  if (dependencies.length === 0) {
+    return;
+  }
+
+  if (options.dryRun) {
+    printPlanned(`docker compose up -d --wait ${dependencies.join(' ')} (in ${composeOptions.cwd})`);
+    return;
+  }
+
+  printInfo(`Starting dependencies: ${dependencies.join(', ')}`);
+
+  await dockerComposeUp({
+    ...composeOptions,
+    services: dependencies,
+    build: false,
+    detached: true,
+    wait: true,
+  });
+}
+
 async function deployBackendLocal(
   config: DeployConfig,
   paths: any,
-  options: DeployOptions
+  options: DeployOptions,
+  context: HookContext
 ): Promise<void> {
   printHeader('LOCAL BACKEND DEPLOYMENT');
 
-  const backendPath = paths.backend;
+  const composeOptions = getLocalComposeOptions(config);
+
+  beginStep('migrations');
+  printHeader('STEP 1: DATABASE MIGRATIONS');
 
-  printHeader('STEP 1: START/UPDATE DOCKER STACK');
+  await startLocalDependencies(config, options);
+  await runMigrationStep(config, options, context, getPrismaOptions(config));
+
+  beginStep('rollout');
+  printHeader('STEP 2: START/UPDATE DOCKER STACK');
+
+  if (options.dryRun) {
+    printPlanned(`docker compose pull (in ${paths.composeDir})`);
+    printPlanned(`docker compose up -d --build (in ${paths.composeDir})`);
+    return;
+  }
 
   // Check if containers exist
-  const containerCount = await checkContainersExist({
-    cwd: backendPath,
-  });
+  const containerCount = await checkContainersExist(composeOptions);
 
   // Pull images
-  await dockerComposePull({
-    cwd: backendPath,
-  });
+  await dockerComposePull(composeOptions);
 
   // Up containers
   await dockerComposeUp({
-    cwd: backendPath,
+    ...composeOptions,
     build: true,
     detached: true,
     forceRecreate: containerCount > 0,
   });
 
   // Wait for containers
-  await waitForContainers();
+  await waitForContainers({ config });
 
   // Health check
   if (!options.skipHealthCheck) {
-    printHeader('STEP 2: HEALTH CHECK');
+    beginStep('health-check');
+    printHeader('STEP 3: HEALTH CHECK');
 
-    await runHealthCheck(config);
+    await applyUnhealthyPolicy(config, await runDetailedHealthCheck(config));
   }
 }
 
 /**
- * Deploy solo frontend
+ * Deploy solo frontend (Next.js standalone)
  */
 export async function deployFrontend(options: DeployOptions = {}): Promise<void> {
-  printHeader('DEPLOY FRONTEND');
+  return withDeployRun(
+    {
+      deploymentType: 'frontend',
+      environment: options.env || 'production',
+      dryRun: options.dryRun,
+      deploymentId: options.deploymentId,
+    },
+    () => runDeployFrontend(options)
+  );
+}
+
+async function runDeployFrontend(options: DeployOptions): Promise<void> {
+  const startTime = new Date();
+
+  printHeader('DEPLOY FRONTEND - NEXT.JS');
+
+  const environment = options.env || 'production';
+  const config = await loadDeployConfig(environment);
+  const paths = getProjectPaths(config);
+
+  if (!isFrontendEnabled(config)) {
+    printWarning('Frontend deployment is not enabled');
+    printInfo('Add a "frontend" section to deploy-config.json to enable it');
+    return;
+  }
+
+  planRunSteps(withDeploySteps(config, options, getFrontendSteps(config, options)));
+
+  if (options.dryRun) {
+    const context: HookContext = { environment, deploymentType: 'frontend' };
+
+    if (!options.skipValidations) {
+      printDryRunHeader(config, environment);
+    }
+
+    if (!options.nested) {
+      await runHookStep('preDeploy', config, context, options);
+    }
+
+    if (config.deployment.type === 'remote') {
+      await deployFrontendRemote(config, paths, options, context);
+    } else {
+      await deployFrontendLocal(config, paths, options);
+    }
+
+    if (!options.nested) {
+      await runHookStep('postDeploy', config, context, options);
+    }
+
+    if (!options.skipValidations) {
+      printSuccess('Dry run complete - no changes were made');
+    }
+    return;
+  }
+
+  // Confirmacion para produccion (si no viene de deployAll)
+  if (environment === 'production' && !options.skipValidations) {
+    const confirmed = await confirmProduction(options);
+    if (!confirmed) {
+      return;
+    }
+  }
+
+  const commitHash = await getCurrentCommitHash();
+  const deploymentId = startDeploymentRecord(options, {
+    environment,
+    type: 'frontend',
+    commitHash,
+  });
+
+  setRunDeploymentId(deploymentId);
+
+  const context: HookContext = { deploymentId, environment, deploymentType: 'frontend', commitHash };
+  let lock: DeployLockInfo | undefined;
+
+  try {
+    lock = await lockDeployment(config, context, options);
+
+    // Validaciones (el build se hace como paso del deploy)
+    if (!options.skipValidations) {
+      beginStep('validations');
+
+      const validation = await runPreDeployValidations(config, {
+        environment,
+        deployType: 'frontend',
+        skipBuild: true,
+        allowDirty: options.allowDirty,
+      });
+
+      if (!validation.passed) {
+        throw new Error(`Pre-deploy validation failed: ${validation.errors.join('; ')}`);
+      }
+
+      printConfigSummary(config, environment);
+    }
+
+    if (!options.nested) {
+      await runHookStep('preDeploy', config, context, options);
+    }
+
+    if (config.deployment.type === 'remote') {
+      await deployFrontendRemote(config, paths, options, context);
+
+      const sshConfig = getSSHConfig(config);
+      if (sshConfig) {
+        beginStep('finalize');
+        await tagDeploymentImages(config, {
+          deploymentId,
+          commitHash,
+          sshOptions: sshConfig.options,
+          services: [getFrontendServiceName(config)],
+        });
+      }
+    } else {
+      await deployFrontendLocal(config, paths, options);
+    }
+
+    if (!options.nested) {
+      await runHookStep('postDeploy', config, context, options);
+    }
+
+    const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
+    updateDeploymentStatus(deploymentId, 'success', duration);
+
+    printSuccess(`Frontend deployment finished in ${formatTime(startTime)}`);
+    printInfo(`Deployment ID: #${deploymentId}`);
+  } catch (error) {
+    recordDeploymentFailure(deploymentId, startTime, error);
 
-  printWarning('Frontend deployment not yet implemented');
-  printInfo('This feature will be added in a future version');
+    if (!options.nested) {
+      await runFailureHook(config, context, error);
+    }
 
-  // TODO: Implementar deploy de frontend
-  // - Build de Next.js
-  // - Deploy a Vercel/Netlify/VPS
-  // - Invalidar cache de CDN
+    printError('Frontend deployment failed');
+    throw error;
+  } finally {
+    await unlockDeployment(config, lock);
+  }
+}
+
+/**
+ * Build local de Next.js con output standalone
+ */
+async function buildFrontend(config: DeployConfig, frontendPath: string): Promise<void> {
+  const { existsSync } = await import('fs');
+  const buildCommand = config.frontend?.buildCommand || 'bun run build';
+
+  await runWithSpinner(
+    `Building Next.js app (${buildCommand})...`,
+    async () => {
+      const result = await execCommand(buildCommand, [], { cwd: frontendPath });
+
+      if (result.exitCode !== 0) {
+        console.log(colors.gray(result.stderr || result.stdout));
+        throw new Error('Next.js build failed');
+      }
+    },
+    'Next.js app built'
+  );
+
+  if (!existsSync(`${frontendPath}/.next/standalone`)) {
+    printError('Standalone output not found: .next/standalone');
+    printInfo("Set output: 'standalone' in next.config.js");
+    throw new Error('Next.js standalone output not found');
+  }
+}
+
+/**
+ * Deploy frontend remoto (VPS)
+ */
+async function deployFrontendRemote(
+  config: DeployConfig,
+  paths: any,
+  options: DeployOptions,
+  context: HookContext
+): Promise<void> {
+  const sshConfig = getSSHConfig(config);
+
+  if (!sshConfig) {
+    throw new Error('SSH configuration not available');
+  }
+
+  const sshOptions = sshConfig.options;
+
+  const buildMode = config.frontend?.build || 'local';
+  const frontendRelativePath = config.paths?.frontend || 'packages/frontend';
+  const remoteFrontendPath = `${config.deployment.path}/${frontendRelativePath}`;
+  const frontendService = getFrontendServiceName(config);
+
+  if (buildMode === 'local') {
+    beginStep('frontend:build');
+    printHeader('STEP 1: BUILD NEXT.JS (LOCAL)');
+
+    if (options.dryRun) {
+      printPlanned(`${config.frontend?.buildCommand || 'bun run build'} (in ${paths.frontend})`);
+    } else {
+      await buildFrontend(config, paths.frontend);
+    }
+  }
+
+  beginStep('frontend:sync');
+  printHeader(`STEP ${buildMode === 'local' ? 2 : 1}: SYNC FRONTEND TO VPS`);
+
+  // rsync solo crea el último nivel del destino: .next tiene que existir antes
+  await ensureRemoteDirectories(
+    buildMode === 'local' ? [remoteFrontendPath, `${remoteFrontendPath}/.next`] : [remoteFrontendPath],
+    sshOptions,
+    options
+  );
+
+  if (buildMode === 'local') {
+    if (options.dryRun) {
+      // El build standalone aun no existe: solo se muestran los destinos
+      printPlanned(`rsync .next/standalone/ -> ${remoteFrontendPath}/.next/standalone/`);
+      printPlanned(`rsync .next/static/ -> ${remoteFrontendPath}/.next/static/`);
+      printPlanned(`rsync public/ -> ${remoteFrontendPath}/public/`);
+    } else {
+      await syncFrontendBuild(paths.frontend, remoteFrontendPath, sshOptions);
+    }
+  } else {
+    const workspaceFilters = getWorkspaceFilters(config);
+    const syncOptions = { dryRun: options.dryRun };
+    const syncEntries = getSyncEntries(config);
+
+    await syncRootFiles(paths.root, config.deployment.path, sshOptions, workspaceFilters.frontend, syncOptions);
+    await ensureRemoteDirectories(
+      getSyncDirectories(paths.root, config.deployment.path, syncEntries),
+      sshOptions,
+      options
+    );
+    await syncFrontendFolder(paths.frontend, remoteFrontendPath, sshOptions, syncOptions);
+    await syncManifest(paths.root, config.deployment.path, syncEntries, sshOptions, syncOptions);
+  }
+
+  await runHook('postSync', config, context, { dryRun: options.dryRun });
+
+  const snapshot = await snapshotRollout(config, sshOptions, options, context, [frontendService]);
+
+  beginStep('frontend:rollout');
+  printHeader(`STEP ${buildMode === 'local' ? 3 : 2}: START FRONTEND SERVICE`);
+
+  printInfo(`Starting service: ${frontendService}...`);
+
+  const result = await runRemoteDeployCommand(
+    getRemoteComposeCommand(
+      config.deployment.path,
+      ['up', '-d', '--no-deps', '--build', '--wait', '--wait-timeout', '120', frontendService],
+      config
+    ),
+    sshOptions,
+    options
+  );
+
+  if (options.dryRun) {
+    return;
+  }
+
+  const results: DeployCheckResult[] = [];
+
+  if (result.exitCode === 0) {
+    printSuccess(`Frontend service '${frontendService}' is running`);
+  } else {
+    printError(`Frontend service '${frontendService}' did not become healthy`);
+    results.push(getRolloutFailure(frontendService, result.stderr));
+  }
+
+  if (!options.skipHealthCheck) {
+    beginStep('frontend:health-check');
+    printHeader(`STEP ${buildMode === 'local' ? 4 : 3}: FRONTEND HEALTH CHECK`);
+
+    const health = await checkFrontendHealth(config);
+
+    if (!health.healthy) {
+      printWarning(`Frontend is not responding at ${health.details}`);
+    }
+
+    results.push(health);
+  }
+
+  await applyUnhealthyPolicy(config, results, { snapshot, sshOptions });
+}
+
+/**
+ * Deploy frontend local
+ */
+async function deployFrontendLocal(
+  config: DeployConfig,
+  paths: any,
+  options: DeployOptions
+): Promise<void> {
+  const frontendService = getFrontendServiceName(config);
+  const buildCommand = config.frontend?.buildCommand || 'bun run build';
+
+  if (options.dryRun) {
+    if ((config.frontend?.build || 'local') === 'local') {
+      printPlanned(`${buildCommand} (in ${paths.frontend})`);
+    }
+    printPlanned(`docker compose up -d --build --no-deps ${frontendService} (in ${paths.composeDir})`);
+    return;
+  }
+
+  if ((config.frontend?.build || 'local') === 'local') {
+    beginStep('frontend:build');
+    printHeader('STEP 1: BUILD NEXT.JS');
+    await buildFrontend(config, paths.frontend);
+  }
+
+  beginStep('frontend:rollout');
+  printHeader('STEP 2: START FRONTEND SERVICE');
+
+  await dockerComposeUp({
+    ...getLocalComposeOptions(config),
+    service: frontendService,
+    build: true,
+    detached: true,
+    noDeps: true,
+  });
+
+  if (!options.skipHealthCheck) {
+    beginStep('frontend:health-check');
+    printHeader('STEP 3: FRONTEND HEALTH CHECK');
+
+    const health = await checkFrontendHealth(config, {
+      baseUrl: `http://localhost:${config.frontend?.port || 3000}`,
+    });
+
+    if (!health.healthy) {
+      printWarning(`Frontend is not responding at ${health.details}`);
+    }
+
+    await applyUnhealthyPolicy(config, [health]);
+  }
 }
 
 /**
@@ -456,13 +1698,26 @@ export async function deployService(
   serviceName: string,
   options: DeployOptions = {}
 ): Promise<void> {
+  return withDeployRun(
+    {
+      deploymentType: 'service',
+      environment: options.env || 'production',
+      service: normalizeServiceName(serviceName),
+      dryRun: options.dryRun,
+      deploymentId: options.deploymentId,
+    },
+    () => runDeployService(serviceName, options)
+  );
+}
+
+async function runDeployService(serviceName: string, options: DeployOptions): Promise<void> {
   const startTime = new Date();
 
   printHeader(`DEPLOY SERVICE: ${serviceName.toUpperCase()}`);
 
-  const config = loadDeployConfig();
-  const paths = getProjectPaths(config);
   const environment = options.env || 'production';
+  const config = await loadDeployConfig(environment);
+  const paths = getProjectPaths(config);
 
   // Normalize service name
   const normalizedService = normalizeServiceName(serviceName);
@@ -472,14 +1727,19 @@ export async function deployService(
     printError(`Invalid service name: ${serviceName}`);
     const activeServices = getActiveServices(config);
     printInfo(`Valid services: ${activeServices.join(', ')}`);
-    return;
+    throw new Error(`Invalid service name: ${serviceName}`);
   }
 
   // Check if service is active
   if (!isServiceActive(config, normalizedService)) {
     printWarning(`Service '${normalizedService}' is not active in configuration`);
 
-    const { confirm } = await import('./utils');
+    const { confirm, isNonInteractive } = await import('./utils');
+
+    if (isNonInteractive()) {
+      throw new Error(`Service '${normalizedService}' is not active in configuration`);
+    }
+
     const proceed = await confirm('Deploy anyway?', false);
 
     if (!proceed) {
@@ -487,63 +1747,113 @@ export async function deployService(
     }
   }
 
+  planRunSteps(withDeploySteps(config, options, getServiceSteps(config, options)));
+
+  if (options.dryRun) {
+    const context: HookContext = { environment, deploymentType: 'service', service: normalizedService };
+
+    printDryRunHeader(config, environment);
+
+    await runHookStep('preDeploy', config, context, options);
+
+    if (config.deployment.type === 'remote') {
+      await deployServiceRemote(normalizedService, config, paths, options, context);
+    } else {
+      await deployServiceLocal(normalizedService, config, paths, options);
+    }
+
+    await runHookStep('postDeploy', config, context, options);
+
+    printSuccess('Dry run complete - no changes were made');
+    return;
+  }
+
   const commitHash = await getCurrentCommitHash();
-  const deploymentId = saveDeployment({
+  const deploymentId = startDeploymentRecord(options, {
     environment,
     type: 'service',
     service: normalizedService,
     commitHash,
-    status: 'in_progress',
   });
 
+  setRunDeploymentId(deploymentId);
+
+  const context: HookContext = {
+    deploymentId,
+    environment,
+    deploymentType: 'service',
+    commitHash,
+    service: normalizedService,
+  };
+  let lock: DeployLockInfo | undefined;
+
   try {
+    lock = await lockDeployment(config, context, options);
+
     // Validaciones basicas
     if (!options.skipValidations) {
+      beginStep('validations');
+
       const validation = await runPreDeployValidations(config, {
         environment,
         deployType: 'backend',
         skipGit: false,
+        allowDirty: options.allowDirty,
       });
 
       if (!validation.passed) {
-        updateDeploymentStatus(deploymentId, 'failed', undefined, 'Validation failed');
-        return;
+        throw new Error(`Validation failed: ${validation.errors.join('; ')}`);
       }
     }
 
+    await runHookStep('preDeploy', config, context, options);
+
     if (config.deployment.type === 'remote') {
-      await deployServiceRemote(normalizedService, config, paths, options);
+      await deployServiceRemote(normalizedService, config, paths, options, context);
 
       // Write version file to VPS after successful remote deploy
       const sshConfig = getSSHConfig(config);
       if (sshConfig) {
+        beginStep('finalize');
+
+        const sshOptions = sshConfig.options;
+
+        await tagDeploymentImages(config, {
+          deploymentId,
+          commitHash,
+          sshOptions,
+          services: [getDockerComposeServiceName(config, normalizedService)],
+        });
+
         await writeVersionFile(config, {
           environment,
           deploymentType: 'service',
           deploymentId,
           commitHash,
           startTime,
-          sshOptions: {
-            target: sshConfig.target,
-            sshKey: config.deployment.ssh_key,
-          },
+          sshOptions,
         });
       }
     } else {
       await deployServiceLocal(normalizedService, config, paths, options);
     }
 
+    await runHookStep('postDeploy', config, context, options);
+
     const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
     updateDeploymentStatus(deploymentId, 'success', duration);
 
     printSuccess(`Service '${normalizedService}' deployed in ${formatTime(startTime)}`);
     printInfo(`Deployment ID: #${deploymentId}`);
   } catch (error) {
-    const duration = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
-    updateDeploymentStatus(deploymentId, 'failed', duration, String(error));
+    recordDeploymentFailure(deploymentId, startTime, error);
+
+    await runFailureHook(config, context, error);
 
     printError(`Service deployment failed: ${normalizedService}`);
     throw error;
+  } finally {
+    await unlockDeployment(config, lock);
   }
 }
 
@@ -554,7 +1864,8 @@ async function deployServiceRemote(
   serviceName: string,
   config: DeployConfig,
   paths: any,
-  options: DeployOptions
+  options: DeployOptions,
+  context: HookContext
 ): Promise<void> {
   const sshConfig = getSSHConfig(config);
 
@@ -562,55 +1873,99 @@ async function deployServiceRemote(
     throw new Error('SSH configuration not available');
   }
 
-  const sshOptions = {
-    target: sshConfig.target,
-    sshKey: config.deployment.ssh_key,
-  };
+  const sshOptions = sshConfig.options;
 
+  beginStep('sync');
   printInfo(`Deploying service '${serviceName}' to remote VPS...`);
 
   // Obtener workspace filters dinamicos
   const workspaceFilters = getWorkspaceFilters(config);
+  const syncOptions = { dryRun: options.dryRun };
 
   // Sync root files (package.json, bun.lock) with workspace filtering
   await syncRootFiles(
     paths.root,
     config.deployment.path,
     sshOptions,
-    workspaceFilters.backend
+    workspaceFilters.backend,
+    syncOptions
   );
 
-  // Sync backend folder
-  await syncBackendFolder(paths.root, config.deployment.path, sshOptions);
+  // Sync manifest (paths.backend y paths.shared por defecto)
+  await syncManifest(paths.root, config.deployment.path, getSyncEntries(config), sshOptions, syncOptions);
 
-  // Sync shared folder
-  await syncSharedFolder(paths.root, config.deployment.path, sshOptions);
+  await runHook('postSync', config, context, { dryRun: options.dryRun });
 
   // Install dependencies
-  await installRemoteDependencies(config.deployment.path, sshOptions);
+  beginStep('install');
+  if (options.dryRun) {
+    printPlanned(`bun install --no-save (in ${config.deployment.path})`);
+  } else {
+    await installRemoteDependencies(config.deployment.path, sshOptions);
+  }
 
   // Deploy only this service
   const dockerServiceName = getDockerComposeServiceName(config, serviceName);
 
+  const buildMode = config.deployment.build || 'remote';
+
+  const snapshot = await snapshotRollout(config, sshOptions, options, context, [dockerServiceName]);
+
+  if (buildMode !== 'remote') {
+    beginStep('build');
+    await buildAndShipImages(config, paths, sshOptions, options, context, dockerServiceName);
+  }
+
+  beginStep('rollout');
   printInfo(`Redeploying service: ${serviceName} (docker: ${dockerServiceName})`);
 
-  await executeRemoteCommand(
-    `cd ${config.deployment.path}/packages/backend && docker compose up -d --no-deps --build --wait --wait-timeout 120 ${dockerServiceName}`,
-    sshOptions
+  const rollout = await runRemoteDeployCommand(
+    getRemoteComposeCommand(
+      config.deployment.path,
+      [
+        'up',
+        '-d',
+        '--no-deps',
+        buildMode === 'remote' ? '--build' : '--no-build',
+        '--wait',
+        '--wait-timeout',
+        '120',
+        dockerServiceName,
+      ],
+      config
+    ),
+    sshOptions,
+    options
   );
 
-  printSuccess(`Service '${serviceName}' deployed`);
+  if (options.dryRun) {
+    return;
+  }
+
+  const results: DeployCheckResult[] = [];
+
+  if (rollout.exitCode === 0) {
+    printSuccess(`Service '${serviceName}' deployed`);
+  } else {
+    printError(`Service '${serviceName}' did not become healthy`);
+    results.push(getRolloutFailure(serviceName, rollout.stderr));
+  }
 
   // Note: --wait flag ensures the container is healthy before returning
   // so we skip waitForContainers() and only run HTTP health check
   if (!options.skipHealthCheck) {
-    await runHealthCheck(config, {
-      remote: {
-        path: config.deployment.path,
-        ssh: sshOptions,
-      },
-    });
+    beginStep('health-check');
+    results.push(
+      ...(await runDetailedHealthCheck(config, {
+        remote: {
+          path: config.deployment.path,
+          ssh: sshOptions,
+        },
+      }))
+    );
   }
+
+  await applyUnhealthyPolicy(config, results, { snapshot, sshOptions });
 }
 
 /**
@@ -625,10 +1980,16 @@ async function deployServiceLocal(
   // Obtener el nombre real del servicio en docker-compose
   const dockerServiceName = getDockerComposeServiceName(config, serviceName);
 
+  beginStep('rollout');
   printInfo(`Deploying service '${serviceName}' (docker: ${dockerServiceName}) locally...`);
 
+  if (options.dryRun) {
+    printPlanned(`docker compose up -d --build --no-deps ${dockerServiceName} (in ${paths.composeDir})`);
+    return;
+  }
+
   await dockerComposeUp({
-    cwd: paths.backend,
+    ...getLocalComposeOptions(config),
     service: dockerServiceName,
     build: true,
     detached: true,
@@ -637,9 +1998,10 @@ async function deployServiceLocal(
 
   printSuccess(`Service '${serviceName}' deployed`);
 
-  await waitForContainers();
+  await waitForContainers({ config });
 
   if (!options.skipHealthCheck) {
-    await runHealthCheck(config);
+    beginStep('health-check');
+    await applyUnhealthyPolicy(config, await runDetailedHealthCheck(config));
   }
 }
@@ -0,0 +1,566 @@
+import { printError } from './utils';
+
+/**
+ * Subconjunto de JSON Schema (draft-07) que entiende el validador
+ */
+export interface JSONSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  enum?: Array<string | number | boolean>;
+  const?: string | number | boolean;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  /** Schema de las claves de un objeto */
+  propertyNames?: JSONSchema;
+  oneOf?: JSONSchema[];
+  /** Solo dentro de then: alternativas de campos obligatorios */
+  anyOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  if?: JSONSchema;
+  then?: JSONSchema;
+}
+
+/**
+ * Error de validación de la configuración
+ * path: ruta JSON del valor (ej: services.api.port, hooks.postDeploy[0].target)
+ */
+export interface ConfigValidationIssue {
+  path: string;
+  message: string;
+}
+
+const ENVIRONMENTS = ['development', 'stage', 'production'];
+const UNHEALTHY_POLICIES = ['warn', 'fail', 'rollback'];
+
+const portSchema: JSONSchema = { type: 'integer', minimum: 1, maximum: 65535 };
+const nonEmptyString: JSONSchema = { type: 'string', minLength: 1 };
+/** Host o usuario SSH: empezando por - se leería como una opción de ssh/rsync */
+const sshHostString: JSONSchema = { type: 'string', minLength: 1, pattern: '^[^-]' };
+
+/**
+ * Opciones de ssh que ejecutan comandos o cargan librerías en la máquina local
+ * No se aceptan en ssh_options (ssh no distingue mayúsculas en las claves)
+ */
+export const UNSAFE_SSH_OPTIONS = [
+  'ProxyCommand',
+  'LocalCommand',
+  'PermitLocalCommand',
+  'KnownHostsCommand',
+  'PKCS11Provider',
+  'SecurityKeyProvider',
+];
+
+/** Una letra de una clave en cualquier combinación de mayúsculas ([Pp][Rr]...) */
+const anyCase = (name: string) => name.replace(/[a-z]/gi, c => `[${c.toUpperCase()}${c.toLowerCase()}]`);
+
+/** Clave de ssh_options: un nombre de opción de ssh que no ejecute comandos locales */
+const SSH_OPTION_KEY_PATTERN = `^(?!(?:${UNSAFE_SSH_OPTIONS.map(anyCase).join('|')})$)[A-Za-z][A-Za-z0-9]*$`;
+
+/**
+ * Verifica si una clave de ssh_options se puede pasar a ssh como -o
+ */
+export function isSafeSSHOption(key: string): boolean {
+  return new RegExp(SSH_OPTION_KEY_PATTERN).test(key);
+}
+
+const serviceSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    dockerName: nonEmptyString,
+    healthEndpoint: { type: 'string' },
+    port: portSchema,
+    onUnhealthy: { enum: UNHEALTHY_POLICIES },
+  },
+  required: ['enabled'],
+  additionalProperties: false,
+};
+
+const servicesSchema: JSONSchema = {
+  type: 'object',
+  description: 'Servicios del backend: true/false o configuración extendida',
+  additionalProperties: { oneOf: [{ type: 'boolean' }, serviceSchema] },
+};
+
+const secretsSchema: JSONSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+};
+
+const hookCommandSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    command: nonEmptyString,
+    target: { enum: ['local', 'remote'] },
+  },
+  required: ['command'],
+  additionalProperties: false,
+};
+
+const hookEntrySchema: JSONSchema = {
+  oneOf: [
+    nonEmptyString,
+    hookCommandSchema,
+    { type: 'array', items: { oneOf: [nonEmptyString, hookCommandSchema] } },
+  ],
+};
+
+const composeSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    dir: nonEmptyString,
+    files: { type: 'array', items: nonEmptyString },
+    profiles: { type: 'array', items: nonEmptyString },
+    projectName: nonEmptyString,
+  },
+  additionalProperties: false,
+};
+
+const syncSchema: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['source'],
+    properties: {
+      source: nonEmptyString,
+      destination: nonEmptyString,
+      include: { type: 'array', items: nonEmptyString },
+      exclude: { type: 'array', items: nonEmptyString },
+      delete: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Campos de deployment que también se pueden sobrescribir por entorno
+ */
+const deploymentProperties: Record<string, JSONSchema> = {
+  type: { enum: ['local', 'remote'] },
+  path: nonEmptyString,
+  vps_ip: sshHostString,
+  ssh_user: sshHostString,
+  ssh_key: nonEmptyString,
+  ssh_port: portSchema,
+  proxy_jump: sshHostString,
+  strict_host_key_checking: { enum: ['yes', 'no', 'accept-new'] },
+  known_hosts_file: nonEmptyString,
+  host_alias: sshHostString,
+  ssh_options: {
+    type: 'object',
+    description: `Opciones -o de ssh, salvo las que ejecutan comandos locales (${UNSAFE_SSH_OPTIONS.join(', ')})`,
+    propertyNames: { type: 'string', pattern: SSH_OPTION_KEY_PATTERN },
+    // Un salto de línea colaría otra opción en la misma -o
+    additionalProperties: { oneOf: [{ type: 'string', minLength: 1, pattern: '^[^\\r\\n]*$' }, { type: 'number' }] },
+  },
+  build: { enum: ['local', 'remote', 'registry'] },
+  registry: nonEmptyString,
+  platform: nonEmptyString,
+  onUnhealthy: { enum: UNHEALTHY_POLICIES },
+};
+
+const environmentSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    ...deploymentProperties,
+    compose: composeSchema,
+    sync: syncSchema,
+    services: servicesSchema,
+    secrets: secretsSchema,
+  },
+  additionalProperties: false,
+};
+
+/**
+ * JSON Schema de deploy-config.json
+ * Se publica en templates/deploy-config.schema.json (`deploy config schema`)
+ */
+export const DEPLOY_CONFIG_SCHEMA: JSONSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'deploy-config.json',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    project: {
+      type: 'object',
+      properties: {
+        name: nonEmptyString,
+        domain: nonEmptyString,
+      },
+      required: ['name', 'domain'],
+      additionalProperties: false,
+    },
+    deployment: {
+      type: 'object',
+      properties: {
+        ...deploymentProperties,
+        confirmed: { type: 'boolean' },
+      },
+      required: ['type', 'path'],
+      additionalProperties: false,
+      if: { properties: { type: { const: 'remote' } }, required: ['type'] },
+      then: { anyOf: [{ required: ['vps_ip'] }, { required: ['host_alias'] }] },
+    },
+    database: {
+      type: 'object',
+      properties: {
+        type: nonEmptyString,
+        host: nonEmptyString,
+        port: portSchema,
+        name: nonEmptyString,
+        user: nonEmptyString,
+      },
+      required: ['type', 'host', 'port', 'name', 'user'],
+      additionalProperties: false,
+    },
+    services: servicesSchema,
+    secrets: secretsSchema,
+    paths: {
+      type: 'object',
+      properties: {
+        frontend: nonEmptyString,
+        backend: nonEmptyString,
+        shared: nonEmptyString,
+        prisma: nonEmptyString,
+        dockerCompose: nonEmptyString,
+      },
+      additionalProperties: false,
+    },
+    compose: composeSchema,
+    sync: syncSchema,
+    frontend: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        build: { enum: ['local', 'docker'] },
+        buildCommand: nonEmptyString,
+        dockerName: nonEmptyString,
+        healthEndpoint: { type: 'string' },
+        port: portSchema,
+      },
+      additionalProperties: false,
+    },
+    hooks: {
+      type: 'object',
+      properties: {
+        preDeploy: hookEntrySchema,
+        postSync: hookEntrySchema,
+        preMigrate: hookEntrySchema,
+        postDeploy: hookEntrySchema,
+        onFailure: hookEntrySchema,
+      },
+      additionalProperties: false,
+    },
+    dashboard: {
+      type: 'object',
+      properties: {
+        host: nonEmptyString,
+        port: portSchema,
+        tls: {
+          type: 'object',
+          properties: {
+            cert: nonEmptyString,
+            key: nonEmptyString,
+          },
+          required: ['cert', 'key'],
+          additionalProperties: false,
+        },
+        allowedOrigins: { type: 'array', items: nonEmptyString },
+        users: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: nonEmptyString,
+              passwordHash: nonEmptyString,
+              role: { enum: ['viewer', 'deployer', 'admin'] },
+            },
+            required: ['name', 'passwordHash'],
+            additionalProperties: false,
+          },
+        },
+        approvals: { type: 'array', items: { enum: ENVIRONMENTS } },
+      },
+      additionalProperties: false,
+    },
+    environments: {
+      type: 'object',
+      properties: Object.fromEntries(ENVIRONMENTS.map(env => [env, environmentSchema])),
+      additionalProperties: false,
+    },
+  },
+  required: ['project', 'deployment', 'services'],
+  additionalProperties: false,
+};
+
+/**
+ * Tipo JSON de un valor (null y array aparte de object)
+ */
+function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Si un valor es del tipo indicado en el schema (integer también es number)
+ */
+function matchesType(value: unknown, type: JSONSchema['type']): boolean {
+  const actual = getJsonType(value);
+  return !type || actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Ruta JSON de una propiedad
+ */
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+  if (!path) {
+    return /^[A-Za-z_$]/.test(segment) ? segment : `[${segment}]`;
+  }
+
+  return segment.startsWith('"') ? `${path}[${segment}]` : `${path}.${segment}`;
+}
+
+/**
+ * Describe un valor en los mensajes de error
+ */
+function describeValue(value: unknown): string {
+  const type = getJsonType(value);
+  if (type === 'string' || type === 'integer' || type === 'number' || type === 'boolean') {
+    return JSON.stringify(value);
+  }
+  return type;
+}
+
+/**
+ * Nombre de un tipo en los mensajes de error
+ */
+function describeType(type: JSONSchema['type']): string {
+  return type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Condición de un if/then, para explicar por qué un campo es obligatorio
+ */
+function describeCondition(schema: JSONSchema): string {
+  return Object.entries(schema.properties || {})
+    .filter(([, property]) => property.const !== undefined)
+    .map(([key, property]) => `${key} is ${JSON.stringify(property.const)}`)
+    .join(' and ');
+}
+
+/**
+ * Valida un valor contra un schema y acumula los errores con su ruta
+ */
+function validateValue(value: unknown, schema: JSONSchema, path: string, issues: ConfigValidationIssue[]): void {
+  const location = path || '(root)';
+
+  if (schema.oneOf) {
+    validateOneOf(value, schema.oneOf, path, issues);
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path: location, message: `must be ${describeType(schema.type)} (got ${describeValue(value)})` });
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path: location, message: `must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    const options = schema.enum.map(option => JSON.stringify(option)).join(', ');
+    issues.push({ path: location, message: `must be one of ${options} (got ${describeValue(value)})` });
+    return;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path: location, message: 'must not be empty' });
+  } else if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path: location, message: `must match ${schema.pattern} (got ${describeValue(value)})` });
+  }
+
+  if (typeof value === 'number') {
+    const belowMin = schema.minimum !== undefined && value < schema.minimum;
+    const aboveMax = schema.maximum !== undefined && value > schema.maximum;
+
+    if (belowMin || aboveMax) {
+      const range = schema.minimum !== undefined && schema.maximum !== undefined
+        ? `between ${schema.minimum} and ${schema.maximum}`
+        : belowMin ? `>= ${schema.minimum}` : `<= ${schema.maximum}`;
+      issues.push({ path: location, message: `must be ${range} (got ${value})` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(item, schema.items!, joinPath(path, index), issues));
+  }
+
+  if (getJsonType(value) === 'object') {
+    validateObject(value as Record<string, unknown>, schema, path, issues);
+  }
+
+  for (const subschema of schema.allOf || []) {
+    validateValue(value, subschema, path, issues);
+  }
+
+  if (schema.if && schema.then && isValid(value, schema.if)) {
+    const condition = describeCondition(schema.if);
+
+    for (const key of schema.then.required || []) {
+      if ((value as Record<string, unknown>)[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: `is required when ${condition}` });
+      }
+    }
+
+    // anyOf: basta con uno de los campos
+    if (schema.then.anyOf && !schema.then.anyOf.some(option => isValid(value, option))) {
+      const [key, ...alternatives] = schema.then.anyOf.flatMap(option => option.required || []);
+      issues.push({
+        path: joinPath(path, key),
+        message: `is required when ${condition}` + (alternatives.length > 0 ? ` (or ${alternatives.join(', ')})` : ''),
+      });
+    }
+  }
+}
+
+/**
+ * Valida las propiedades de un objeto
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JSONSchema,
+  path: string,
+  issues: ConfigValidationIssue[]
+): void {
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      issues.push({ path: joinPath(path, key), message: 'is required' });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    // undefined (deploy.config.ts con variables de entorno sin definir) equivale a ausente
+    if (propertyValue === undefined) {
+      continue;
+    }
+
+    const propertyPath = joinPath(path, key);
+    const propertySchema = schema.properties?.[key];
+
+    if (schema.propertyNames && !isValid(key, schema.propertyNames)) {
+      issues.push({ path: propertyPath, message: 'is not an allowed key' });
+      continue;
+    }
+
+    if (propertySchema) {
+      validateValue(propertyValue, propertySchema, propertyPath, issues);
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateValue(propertyValue, schema.additionalProperties, propertyPath, issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: propertyPath, message: 'is not a known property' });
+    }
+  }
+}
+
+/**
+ * oneOf: se valida contra la alternativa de su mismo tipo para dar errores concretos
+ */
+function validateOneOf(value: unknown, options: JSONSchema[], path: string, issues: ConfigValidationIssue[]): void {
+  const candidates = options.filter(option => matchesType(value, option.type));
+
+  if (candidates.length === 0) {
+    const types = options.map(option => option.type && describeType(option.type)).filter(Boolean);
+    issues.push({
+      path: path || '(root)',
+      message: `must be ${types.join(' or ')} (got ${describeValue(value)})`,
+    });
+    return;
+  }
+
+  const match = candidates.find(option => isValid(value, option)) || candidates[0];
+  validateValue(value, match, path, issues);
+}
+
+/**
+ * Si un valor cumple un schema
+ */
+function isValid(value: unknown, schema: JSONSchema): boolean {
+  const issues: ConfigValidationIssue[] = [];
+  validateValue(value, schema, '', issues);
+  return issues.length === 0;
+}
+
+/**
+ * Comprobaciones entre secciones que el schema no puede expresar:
+ * un entorno remoto necesita vps_ip (o host_alias) propio o heredado de deployment
+ */
+function validateEnvironments(config: Record<string, any>, issues: ConfigValidationIssue[]): void {
+  const deployment = config.deployment || {};
+
+  for (const [env, overrides] of Object.entries<Record<string, unknown>>(config.environments || {})) {
+    if (!overrides || typeof overrides !== 'object') {
+      continue;
+    }
+
+    const type = overrides.type ?? deployment.type;
+    const host = overrides.vps_ip ?? overrides.host_alias ?? deployment.vps_ip ?? deployment.host_alias;
+
+    if (type === 'remote' && !host && deployment.type !== 'remote') {
+      issues.push({
+        path: joinPath(joinPath('environments', env), 'vps_ip'),
+        message: 'is required when type is "remote" (or host_alias)',
+      });
+    }
+  }
+}
+
+/**
+ * Valida una configuración de deploy completa
+ * Devuelve la lista de errores (vacía si es válida)
+ */
+export function validateDeployConfig(config: unknown): ConfigValidationIssue[] {
+  const issues: ConfigValidationIssue[] = [];
+
+  validateValue(config, DEPLOY_CONFIG_SCHEMA, '', issues);
+
+  if (getJsonType(config) === 'object') {
+    validateEnvironments(config as Record<string, any>, issues);
+  }
+
+  return issues;
+}
+
+/**
+ * Formatea un error de validación: "ruta: mensaje"
+ */
+export function formatConfigIssue(issue: ConfigValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Muestra los errores de validación de un archivo de configuración
+ */
+export function printConfigIssues(configFile: string, issues: ConfigValidationIssue[]): void {
+  printError(`Invalid configuration in ${configFile}:`);
+
+  for (const issue of issues) {
+    console.log(`   • ${formatConfigIssue(issue)}`);
+  }
+}
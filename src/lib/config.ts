@@ -1,6 +1,7 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { readFileSync, existsSync, statSync } from 'fs';
+import { basename, dirname, join, posix, resolve } from 'path';
 import { printError, printWarning, printInfo } from './utils';
+import { validateDeployConfig, printConfigIssues, isSafeSSHOption, type ConfigValidationIssue } from './config-schema';
 
 /**
  * Tipos de deploy
@@ -12,6 +13,18 @@ export type DeployType = 'local' | 'remote';
  */
 export type Environment = 'development' | 'stage' | 'production';
 
+/**
+ * Entornos soportados
+ */
+export const ENVIRONMENTS: Environment[] = ['development', 'stage', 'production'];
+
+/**
+ * Verifica si un valor es un entorno soportado
+ */
+export function isEnvironment(value: unknown): value is Environment {
+  return ENVIRONMENTS.includes(value as Environment);
+}
+
 /**
  * Configuración del proyecto
  */
@@ -20,6 +33,22 @@ export interface ProjectConfig {
   domain: string;
 }
 
+/**
+ * Dónde se construyen las imágenes Docker en deploys remotos
+ * - remote: docker compose build en el VPS
+ * - local: build en la máquina local y docker save | ssh docker load
+ * - registry: build local, push al registry y pull en el VPS
+ */
+export type BuildMode = 'local' | 'remote' | 'registry';
+
+/**
+ * Qué hacer cuando el health check posterior al deploy falla
+ * - warn: solo avisa (el deploy queda como success)
+ * - fail: marca el deploy como failed y termina con error
+ * - rollback: restaura las imágenes y la versión anteriores y marca el deploy como rolled_back
+ */
+export type UnhealthyPolicy = 'warn' | 'fail' | 'rollback';
+
 /**
  * Configuración de deployment
  */
@@ -29,7 +58,47 @@ export interface DeploymentConfig {
   vps_ip?: string;
   ssh_user?: string;
   ssh_key?: string;
+  /** Puerto SSH (default: 22 o el de ~/.ssh/config) */
+  ssh_port?: number;
+  /** Host(s) de salto (ssh -J), ej: deploy@bastion.example.com:2222 */
+  proxy_jump?: string;
+  /** Política de host keys desconocidas (StrictHostKeyChecking) */
+  strict_host_key_checking?: StrictHostKeyChecking;
+  /** Archivo known_hosts a usar (UserKnownHostsFile) */
+  known_hosts_file?: string;
+  /** Host de ~/.ssh/config: sustituye a vps_ip y hereda de allí usuario, puerto, clave... */
+  host_alias?: string;
+  /** Opciones -o adicionales, ej: { "ServerAliveInterval": 30 } (sin ProxyCommand, LocalCommand...) */
+  ssh_options?: Record<string, string | number>;
   confirmed?: boolean;
+  /** Dónde se construyen las imágenes del backend (default: remote) */
+  build?: BuildMode;
+  /** Registry para build: registry (ej: ghcr.io/my-org, localhost:5000) */
+  registry?: string;
+  /** Plataforma de las imágenes construidas en local (ej: linux/amd64) */
+  platform?: string;
+  /** Política si el health check falla tras el deploy (default: warn) */
+  onUnhealthy?: UnhealthyPolicy;
+}
+
+/**
+ * Valores de StrictHostKeyChecking admitidos
+ */
+export type StrictHostKeyChecking = 'yes' | 'no' | 'accept-new';
+
+/**
+ * Conexión SSH resuelta desde deployment (ver getSSHConfig)
+ */
+export interface SSHConnectionOptions {
+  /** usuario@host, o el alias de ~/.ssh/config */
+  target: string;
+  sshKey?: string;
+  port?: number;
+  proxyJump?: string;
+  strictHostKeyChecking?: StrictHostKeyChecking;
+  knownHostsFile?: string;
+  /** Opciones -o adicionales */
+  extraOptions?: Record<string, string | number>;
 }
 
 /**
@@ -51,6 +120,8 @@ export interface ServiceConfig {
   dockerName?: string;
   healthEndpoint?: string;
   port?: number;
+  /** Política propia del servicio si su health check falla */
+  onUnhealthy?: UnhealthyPolicy;
 }
 
 /**
@@ -81,6 +152,174 @@ export interface PathsConfig {
   dockerCompose?: string;
 }
 
+/**
+ * Configuración de docker compose
+ * Las rutas son relativas a la raíz del proyecto (local) y a deployment.path (servidor)
+ */
+export interface ComposeConfig {
+  /** Directorio donde se ejecuta docker compose (default: directorio de paths.dockerCompose, o paths.backend) */
+  dir?: string;
+  /** Archivos compose (-f), relativos a dir. Sin definir, compose usa docker-compose.yml y su override */
+  files?: string[];
+  /** Perfiles de compose a activar (--profile) */
+  profiles?: string[];
+  /** Nombre del proyecto compose (-p) */
+  projectName?: string;
+}
+
+/**
+ * Configuración de compose resuelta (con defaults)
+ */
+export interface ResolvedComposeConfig {
+  dir: string;
+  files: string[];
+  profiles: string[];
+  projectName?: string;
+}
+
+/**
+ * Entrada del manifiesto de sincronización (rsync de local al servidor)
+ */
+export interface SyncEntry {
+  /** Archivo o carpeta, relativo a la raíz del proyecto */
+  source: string;
+  /** Destino relativo a deployment.path (default: el mismo que source) */
+  destination?: string;
+  /** Si se indica, solo se sincronizan los archivos que coinciden (patrones de rsync) */
+  include?: string[];
+  /** Patrones excluidos, además de node_modules/, .git/ y .DS_Store */
+  exclude?: string[];
+  /** Borrar en el servidor lo que ya no existe en local (default: true) */
+  delete?: boolean;
+}
+
+/**
+ * Modo de build del frontend
+ * - local: build de Next.js (output standalone) en la máquina local y sync del resultado
+ * - docker: sync del código fuente y build dentro de la imagen Docker en el servidor
+ */
+export type FrontendBuildMode = 'local' | 'docker';
+
+/**
+ * Configuración del frontend (Next.js)
+ */
+export interface FrontendConfig {
+  enabled?: boolean;
+  build?: FrontendBuildMode;
+  buildCommand?: string;
+  dockerName?: string;
+  healthEndpoint?: string;
+  port?: number;
+}
+
+/**
+ * Dónde se ejecuta un hook: en la máquina local o en el servidor via SSH
+ */
+export type HookTarget = 'local' | 'remote';
+
+/**
+ * Comando de un hook (un string equivale a { command, target: 'local' })
+ */
+export interface HookCommand {
+  command: string;
+  target?: HookTarget;
+}
+
+/**
+ * Entrada de un hook: uno o varios comandos
+ */
+export type HookEntry = string | HookCommand | Array<string | HookCommand>;
+
+/**
+ * Hooks del ciclo de deploy
+ */
+export interface HooksConfig {
+  preDeploy?: HookEntry;
+  postSync?: HookEntry;
+  preMigrate?: HookEntry;
+  postDeploy?: HookEntry;
+  onFailure?: HookEntry;
+}
+
+/**
+ * Nombre de un hook
+ */
+export type HookName = keyof HooksConfig;
+
+/**
+ * Rol de un usuario del dashboard
+ * - viewer: solo consulta estado e historial
+ * - deployer: lanza, cancela y aprueba deploys
+ * - admin: además edita la configuración
+ */
+export type DashboardRole = 'viewer' | 'deployer' | 'admin';
+
+/**
+ * Usuario del dashboard (passwordHash generado con `deploy hash-password`)
+ */
+export interface DashboardUser {
+  name: string;
+  passwordHash: string;
+  /** Por defecto viewer */
+  role?: DashboardRole;
+}
+
+/**
+ * Certificado y clave TLS del dashboard (rutas a ficheros PEM)
+ */
+export interface DashboardTLSConfig {
+  cert: string;
+  key: string;
+}
+
+/**
+ * Configuración del dashboard web
+ * Sin usuarios configurados se genera un token de acceso al arrancar
+ */
+export interface DashboardConfig {
+  host?: string;
+  port?: number;
+  tls?: DashboardTLSConfig;
+  /** Orígenes externos que pueden llamar a la API (CORS) */
+  allowedOrigins?: string[];
+  users?: DashboardUser[];
+  /** Entornos cuyos deploys necesitan la aprobación de otro usuario (por defecto production) */
+  approvals?: Environment[];
+}
+
+/**
+ * Overrides de un entorno concreto (stage, production...)
+ * Los campos definidos aquí reemplazan a los de deployment/services/secrets
+ */
+export interface EnvironmentConfig {
+  type?: DeployType;
+  vps_ip?: string;
+  ssh_user?: string;
+  ssh_key?: string;
+  ssh_port?: number;
+  proxy_jump?: string;
+  strict_host_key_checking?: StrictHostKeyChecking;
+  known_hosts_file?: string;
+  host_alias?: string;
+  ssh_options?: Record<string, string | number>;
+  path?: string;
+  build?: BuildMode;
+  registry?: string;
+  platform?: string;
+  onUnhealthy?: UnhealthyPolicy;
+  /** Se combina campo a campo con la sección compose base */
+  compose?: ComposeConfig;
+  /** Sustituye la lista sync base */
+  sync?: SyncEntry[];
+  services?: ServicesConfig;
+  secrets?: SecretsConfig;
+}
+
+/**
+ * Entornos configurados - cada uno puede apuntar a un servidor distinto
+ */
+export type EnvironmentsConfig = Partial<Record<Environment, EnvironmentConfig>>;
+
 /**
  * Configuración completa de deploy
  */
@@ -91,8 +330,69 @@ export interface DeployConfig {
   services: ServicesConfig;
   secrets?: SecretsConfig;
   paths?: PathsConfig;
+  compose?: ComposeConfig;
+  sync?: SyncEntry[];
+  frontend?: FrontendConfig;
+  hooks?: HooksConfig;
+  dashboard?: DashboardConfig;
+  environments?: EnvironmentsConfig;
+}
+
+/**
+ * Contexto que recibe una configuración definida como función
+ * env: entorno del deploy (production si el comando no indica ninguno)
+ */
+export interface DeployConfigContext {
+  env: Environment;
+}
+
+/**
+ * Configuración calculada en código (deploy.config.ts), puede ser async
+ */
+export type DeployConfigFactory = (context: DeployConfigContext) => DeployConfig | Promise<DeployConfig>;
+
+/**
+ * Export default de deploy.config.ts/js/mjs: objeto o función
+ */
+export type DeployConfigExport = DeployConfig | DeployConfigFactory;
+
+/**
+ * Nombres del archivo de configuración, por orden de preferencia
+ */
+export const CONFIG_FILE_NAMES = ['deploy.config.ts', 'deploy.config.js', 'deploy.config.mjs', 'deploy-config.json'];
+
+/**
+ * De dónde sale el archivo de configuración
+ * - flag: opción --config del CLI
+ * - env: variable DEPLOKIT_CONFIG
+ * - search: primer archivo encontrado subiendo desde el directorio actual
+ */
+export type ConfigSource = 'flag' | 'env' | 'search';
+
+/**
+ * Archivo de configuración y raíz del proyecto resueltos
+ */
+export interface ConfigLocation {
+  /** null si no existe */
+  file: string | null;
+  /** Ruta indicada con --config o DEPLOKIT_CONFIG */
+  requested?: string;
+  root: string;
+  source: ConfigSource;
+  /** Directorios recorridos en la búsqueda (vacío con --config o DEPLOKIT_CONFIG) */
+  searched: string[];
 }
 
+/**
+ * Ubicación legacy del archivo dentro del proyecto
+ */
+const LEGACY_CONFIG_PATH = join('packages', 'backend', 'deploy-config.json');
+
+/**
+ * Archivo indicado con --config (tiene prioridad sobre DEPLOKIT_CONFIG)
+ */
+let explicitConfigFile: string | undefined;
+
 /**
  * Paths importantes del proyecto
  */
@@ -106,51 +406,85 @@ export interface ProjectPaths {
   envFile: string;
   prisma: string;
   dockerCompose: string;
+  /** Directorio local donde se ejecuta docker compose */
+  composeDir: string;
 }
 
 /**
- * Busca el archivo de configuración en múltiples ubicaciones
+ * Fija el archivo de configuración (opción --config), relativo al directorio actual
  */
-export function findConfigFile(): string | null {
-  const possiblePaths = [
-    // Relativo al toolkit (cuando se ejecuta desde deploy-toolkit/)
-    join(process.cwd(), 'deploy-config.json'),
-    // En raíz del proyecto
-    join(process.cwd(), '../deploy-config.json'),
-    // En backend (legacy)
-    join(process.cwd(), '../packages/backend/deploy-config.json'),
-    // Absoluto desde __dirname
-    join(__dirname, '../../deploy-config.json'),
-    join(__dirname, '../../../deploy-config.json'),
-    join(__dirname, '../../packages/backend/deploy-config.json'),
-  ];
+export function setConfigFile(path?: string): void {
+  explicitConfigFile = path ? resolve(path) : undefined;
+}
 
-  for (const path of possiblePaths) {
-    if (existsSync(path)) {
-      return path;
+/**
+ * Raíz del proyecto de un archivo de configuración: su directorio,
+ * o el de encima de packages/backend en la ubicación legacy
+ */
+function getConfigRoot(configFile: string): string {
+  return configFile.endsWith(LEGACY_CONFIG_PATH)
+    ? resolve(dirname(configFile), '../..')
+    : dirname(configFile);
+}
+
+/**
+ * Resuelve el archivo de configuración y la raíz del proyecto
+ * 1. --config  2. DEPLOKIT_CONFIG  3. subiendo desde el directorio actual hasta
+ * encontrar un archivo, la raíz del repositorio git o la del sistema de ficheros
+ */
+export function resolveConfigLocation(): ConfigLocation {
+  const envConfigFile = process.env.DEPLOKIT_CONFIG ? resolve(process.env.DEPLOKIT_CONFIG) : undefined;
+  const explicit = explicitConfigFile || envConfigFile;
+
+  if (explicit) {
+    return {
+      file: existsSync(explicit) ? explicit : null,
+      requested: explicit,
+      root: getConfigRoot(explicit),
+      source: explicitConfigFile ? 'flag' : 'env',
+      searched: [],
+    };
+  }
+
+  const searched: string[] = [];
+  let dir = process.cwd();
+
+  while (true) {
+    searched.push(dir);
+
+    for (const name of [...CONFIG_FILE_NAMES, LEGACY_CONFIG_PATH]) {
+      const path = join(dir, name);
+
+      if (existsSync(path)) {
+        return { file: path, root: getConfigRoot(path), source: 'search', searched };
+      }
+    }
+
+    const parent = dirname(dir);
+
+    if (existsSync(join(dir, '.git')) || parent === dir) {
+      break;
     }
+
+    dir = parent;
   }
 
-  return null;
+  return { file: null, root: process.cwd(), source: 'search', searched };
+}
+
+/**
+ * Busca el archivo de configuración (null si no existe)
+ */
+export function findConfigFile(): string | null {
+  return resolveConfigLocation().file;
 }
 
 /**
  * Obtiene las rutas del proyecto basándose en la configuración
  */
 export function getProjectPaths(config?: DeployConfig): ProjectPaths {
-  // Intentar obtener root desde donde está el config file
-  const configFile = findConfigFile();
-  let root: string;
-
-  if (configFile) {
-    // Root es el directorio que contiene deploy-config.json o dos niveles arriba si está en packages/backend
-    root = configFile.includes('packages/backend')
-      ? join(configFile, '../../..')
-      : join(configFile, '..');
-  } else {
-    // Fallback: asumir que estamos en deploy-toolkit/ o en la raíz
-    root = join(__dirname, '../..');
-  }
+  // Root es el directorio del archivo de configuración (o el actual si no hay)
+  const { file: configFile, root } = resolveConfigLocation();
 
   // Usar paths personalizados si están en config, sino usar defaults
   const paths = config?.paths;
@@ -165,48 +499,175 @@ export function getProjectPaths(config?: DeployConfig): ProjectPaths {
     configFile: configFile || join(root, 'deploy-config.json'),
     envFile: join(root, paths?.backend || 'packages/backend', '.env'),
     dockerCompose: join(root, paths?.dockerCompose || 'packages/backend/docker-compose.yml'),
+    composeDir: join(root, getComposeConfig(config).dir),
   };
 }
 
+/**
+ * Nombres de archivo que docker compose encuentra solo (junto con su override)
+ */
+export const DEFAULT_COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
+
+/**
+ * Resuelve la configuración de docker compose
+ * Sin sección compose se usa paths.dockerCompose (su directorio y, si no es un
+ * nombre estándar, el archivo) o paths.backend
+ */
+export function getComposeConfig(config?: DeployConfig): ResolvedComposeConfig {
+  const compose = config?.compose || {};
+  const dockerCompose = config?.paths?.dockerCompose;
+
+  const dir = posix.normalize(
+    compose.dir || (dockerCompose ? posix.dirname(dockerCompose) : config?.paths?.backend || 'packages/backend')
+  ).replace(/\/+$/, '');
+
+  let files = compose.files || [];
+
+  if (!compose.files && dockerCompose && !DEFAULT_COMPOSE_FILES.includes(posix.basename(dockerCompose))) {
+    files = [posix.relative(dir, posix.normalize(dockerCompose))];
+  }
+
+  return {
+    dir: dir || '.',
+    files,
+    profiles: compose.profiles || [],
+    projectName: compose.projectName,
+  };
+}
+
+/**
+ * Patrones que nunca se sincronizan
+ */
+export const DEFAULT_SYNC_EXCLUDE = ['node_modules/', '.git/', '.DS_Store'];
+
+/**
+ * Manifiesto de sincronización del deploy remoto
+ * Sin sección sync: paths.backend (sin backups ni .env locales) y paths.shared
+ */
+export function getSyncEntries(config: DeployConfig): SyncEntry[] {
+  if (config.sync) {
+    return config.sync;
+  }
+
+  return [
+    {
+      source: config.paths?.backend || 'packages/backend',
+      exclude: ['*.bak', '.env.local', '.env.*.local'],
+    },
+    {
+      source: config.paths?.shared || 'packages/shared',
+    },
+  ];
+}
+
+/**
+ * Lee un archivo de configuración sin validarlo
+ * deploy.config.ts/js/mjs se importa con Bun; si exporta una función se llama con { env }
+ */
+export async function readConfigFile(configFile: string, environment: Environment = 'production'): Promise<unknown> {
+  if (configFile.endsWith('.json')) {
+    return JSON.parse(readFileSync(configFile, 'utf-8'));
+  }
+
+  // El mtime en la query vuelve a importar el archivo si cambia (dashboard en marcha)
+  const path = resolve(configFile);
+  const module = await import(`${path}?mtime=${statSync(path).mtimeMs}`);
+  const exported = module.default as DeployConfigExport | undefined;
+
+  if (exported === undefined) {
+    throw new Error(`${basename(configFile)} has no default export`);
+  }
+
+  return typeof exported === 'function' ? await exported({ env: environment }) : exported;
+}
+
+/**
+ * Error al cargar la configuración: archivo no encontrado, ilegible o inválido
+ * El detalle ya se ha mostrado por consola; quien llama decide si termina el proceso
+ */
+export class ConfigLoadError extends Error {
+  constructor(message: string, public readonly issues: ConfigValidationIssue[] = []) {
+    super(message);
+    this.name = 'ConfigLoadError';
+  }
+}
+
 /**
  * Lee la configuración de deploy
+ * Si se indica un entorno, la configuración se resuelve contra sus overrides
+ * Lanza ConfigLoadError si no se encuentra, no se puede leer o no es válida
  */
-export function loadDeployConfig(): DeployConfig {
-  const configFile = findConfigFile();
+export async function loadDeployConfig(environment?: Environment): Promise<DeployConfig> {
+  const location = resolveConfigLocation();
+  const configFile = location.file;
 
   if (!configFile) {
+    if (location.source !== 'search') {
+      const origin = location.source === 'flag' ? '--config' : 'DEPLOKIT_CONFIG';
+      printError(`Configuration file not found: ${location.requested} (${origin})`);
+      throw new ConfigLoadError(`Configuration file not found: ${location.requested}`);
+    }
+
     printError('Configuration file not found');
-    printInfo('Searched locations:');
-    printInfo('  - ./deploy-config.json');
-    printInfo('  - ../deploy-config.json');
-    printInfo('  - ../packages/backend/deploy-config.json');
+    printInfo(`Searched for ${CONFIG_FILE_NAMES.join(', ')} in:`);
+    for (const dir of location.searched) {
+      printInfo(`  - ${dir}`);
+    }
     printInfo('');
-    printInfo('Create a deploy-config.json in your project root');
-    process.exit(1);
+    printInfo('Create a deploy.config.ts or deploy-config.json in your project root, or pass --config');
+    throw new ConfigLoadError('Configuration file not found');
   }
 
+  let config: DeployConfig;
+
   try {
-    const content = readFileSync(configFile, 'utf-8');
-    const config = JSON.parse(content) as DeployConfig;
+    config = (await readConfigFile(configFile, environment)) as DeployConfig;
+  } catch (error) {
+    printError(`Failed to load configuration: ${error}`);
+    throw new ConfigLoadError(`Failed to load configuration: ${error}`);
+  }
 
-    // Validar configuración básica
-    if (!config.project || !config.deployment) {
-      printError('Invalid configuration: missing required sections');
-      process.exit(1);
-    }
+  // Validar la configuración completa contra el schema
+  const issues = validateDeployConfig(config);
+  if (issues.length > 0) {
+    printConfigIssues(configFile, issues);
+    throw new ConfigLoadError(`Invalid configuration: ${configFile}`, issues);
+  }
+
+  return environment ? resolveEnvironmentConfig(config, environment) : config;
+}
+
+/**
+ * Aplica los overrides de un entorno sobre la configuración base
+ * Si el entorno no está definido en `environments`, se usa la configuración base
+ */
+export function resolveEnvironmentConfig(config: DeployConfig, environment: Environment): DeployConfig {
+  const overrides = config.environments?.[environment];
 
+  if (!overrides) {
     return config;
-  } catch (error) {
-    printError(`Failed to load configuration: ${error}`);
-    process.exit(1);
   }
+
+  const { services, secrets, compose, sync, ...deployment } = overrides;
+
+  return {
+    ...config,
+    deployment: {
+      ...config.deployment,
+      ...deployment,
+    },
+    compose: compose ? { ...config.compose, ...compose } : config.compose,
+    sync: sync || config.sync,
+    services: services ? { ...config.services, ...services } : config.services,
+    secrets: secrets ? { ...config.secrets, ...secrets } : config.secrets,
+  };
 }
 
 /**
  * Verifica si el archivo .env existe
  */
-export function checkEnvFile(): boolean {
-  const config = loadDeployConfig();
+export async function checkEnvFile(): Promise<boolean> {
+  const config = await loadDeployConfig();
   const paths = getProjectPaths(config);
   const exists = existsSync(paths.envFile);
 
@@ -218,39 +679,90 @@ export function checkEnvFile(): boolean {
   return exists;
 }
 
+/**
+ * Argumentos de ssh para una conexión: clave, puerto, salto, host keys y -o extra
+ */
+export function getSSHConnectionArgs(options: SSHConnectionOptions): string[] {
+  const args: string[] = [];
+
+  if (options.sshKey) {
+    args.push('-i', options.sshKey);
+  }
+
+  if (options.port) {
+    args.push('-p', String(options.port));
+  }
+
+  if (options.proxyJump) {
+    args.push('-J', options.proxyJump);
+  }
+
+  if (options.strictHostKeyChecking) {
+    args.push('-o', `StrictHostKeyChecking=${options.strictHostKeyChecking}`);
+  }
+
+  if (options.knownHostsFile) {
+    args.push('-o', `UserKnownHostsFile=${options.knownHostsFile}`);
+  }
+
+  for (const [key, value] of Object.entries(options.extraOptions || {})) {
+    // El schema ya las rechaza; aquí se cubre a quien llame sin validar la config
+    if (!isSafeSSHOption(key) || /[\r\n]/.test(String(value))) {
+      throw new Error(`SSH option not allowed: ${key}`);
+    }
+
+    args.push('-o', `${key}=${value}`);
+  }
+
+  return args;
+}
+
 /**
  * Obtiene la configuración de SSH si es remote
+ * Si se indica un entorno, se usan el host/usuario/clave de ese entorno
+ * Con host_alias el usuario, puerto, etc. que no se indiquen salen de ~/.ssh/config
  */
-export function getSSHConfig(config: DeployConfig): {
+export function getSSHConfig(config: DeployConfig, environment?: Environment): {
   target: string;
   sshCmd: string;
   rsyncSsh: string;
+  options: SSHConnectionOptions;
 } | null {
-  if (config.deployment.type !== 'remote') {
+  const resolved = environment ? resolveEnvironmentConfig(config, environment) : config;
+
+  if (resolved.deployment.type !== 'remote') {
     return null;
   }
 
-  const { vps_ip, ssh_user = 'root', ssh_key } = config.deployment;
+  const { vps_ip, ssh_user, ssh_key, host_alias } = resolved.deployment;
 
-  if (!vps_ip) {
-    printError('VPS IP not configured for remote deployment');
-    process.exit(1);
+  if (!vps_ip && !host_alias) {
+    const message = `VPS IP not configured for remote deployment${environment ? ` (${environment})` : ''}`;
+    printError(message);
+    throw new ConfigLoadError(message);
   }
 
-  const target = `${ssh_user}@${vps_ip}`;
+  const target = host_alias
+    ? (ssh_user ? `${ssh_user}@${host_alias}` : host_alias)
+    : `${ssh_user || 'root'}@${vps_ip}`;
 
-  let sshCmd = 'ssh';
-  let rsyncSsh = 'ssh';
+  const options: SSHConnectionOptions = {
+    target,
+    sshKey: ssh_key,
+    port: resolved.deployment.ssh_port,
+    proxyJump: resolved.deployment.proxy_jump,
+    strictHostKeyChecking: resolved.deployment.strict_host_key_checking,
+    knownHostsFile: resolved.deployment.known_hosts_file,
+    extraOptions: resolved.deployment.ssh_options,
+  };
 
-  if (ssh_key) {
-    sshCmd = `ssh -i ${ssh_key}`;
-    rsyncSsh = `ssh -i ${ssh_key}`;
-  }
+  const sshCmd = ['ssh', ...getSSHConnectionArgs(options)].join(' ');
 
   return {
     target,
     sshCmd,
-    rsyncSsh,
+    rsyncSsh: sshCmd,
+    options,
   };
 }
 
@@ -363,20 +875,77 @@ export function getServiceHealthEndpoint(config: DeployConfig, serviceName: stri
   return null;
 }
 
+/**
+ * Obtiene la política onUnhealthy de un servicio (la del servicio o la de deployment)
+ */
+export function getUnhealthyPolicy(config: DeployConfig, serviceName?: string): UnhealthyPolicy {
+  const service = serviceName ? getServiceConfig(config, serviceName) : null;
+
+  return service?.onUnhealthy || config.deployment.onUnhealthy || 'warn';
+}
+
+/**
+ * Verifica si algún servicio (o el deployment) usa onUnhealthy: rollback
+ */
+export function hasRollbackPolicy(config: DeployConfig): boolean {
+  return (
+    config.deployment.onUnhealthy === 'rollback' ||
+    Object.values(config.services).some(s => typeof s === 'object' && s.onUnhealthy === 'rollback')
+  );
+}
+
+/**
+ * Verifica si el deploy de frontend está habilitado
+ * Requiere una sección `frontend` en la configuración
+ */
+export function isFrontendEnabled(config: DeployConfig): boolean {
+  return Boolean(config.frontend) && config.frontend?.enabled !== false;
+}
+
+/**
+ * Obtiene el nombre del servicio de frontend en docker-compose
+ */
+export function getFrontendServiceName(config: DeployConfig): string {
+  return config.frontend?.dockerName || `${config.project.name}-frontend`;
+}
+
 /**
  * Muestra resumen de la configuración
  */
-export function printConfigSummary(config: DeployConfig): void {
+export function printConfigSummary(config: DeployConfig, environment?: Environment): void {
   console.log('');
   console.log('Deployment Configuration:');
   console.log(`  • Project:      ${config.project.name}`);
   console.log(`  • Domain:       ${config.project.domain}`);
+
+  if (environment) {
+    console.log(`  • Environment:  ${environment}`);
+  }
+
   console.log(`  • Type:         ${config.deployment.type}`);
 
   if (config.deployment.type === 'remote') {
-    console.log(`  • VPS IP:       ${config.deployment.vps_ip}`);
-    console.log(`  • SSH User:     ${config.deployment.ssh_user}`);
+    if (config.deployment.host_alias) {
+      console.log(`  • SSH Host:     ${config.deployment.host_alias} (~/.ssh/config)`);
+    } else {
+      console.log(`  • VPS IP:       ${config.deployment.vps_ip}`);
+    }
+
+    console.log(
+      `  • SSH User:     ${config.deployment.ssh_user || (config.deployment.host_alias ? '(~/.ssh/config)' : 'root')}`
+    );
+
+    if (config.deployment.ssh_port) {
+      console.log(`  • SSH Port:     ${config.deployment.ssh_port}`);
+    }
+
+    if (config.deployment.proxy_jump) {
+      console.log(`  • Jump Host:    ${config.deployment.proxy_jump}`);
+    }
+
     console.log(`  • Remote Path:  ${config.deployment.path}`);
+    console.log(`  • Build:        ${config.deployment.build || 'remote'}`);
+    console.log(`  • On Unhealthy: ${config.deployment.onUnhealthy || 'warn'}`);
   }
 
   const activeServices = getActiveServices(config);
@@ -403,7 +972,10 @@ export function detectEnvironment(): Environment {
 
 /**
  * Helper para definir configuración con TypeScript (intellisense)
+ * Acepta el objeto de configuración o una función (async) que recibe { env }
  */
-export function defineConfig(config: DeployConfig): DeployConfig {
+export function defineConfig(config: DeployConfig): DeployConfig;
+export function defineConfig(config: DeployConfigFactory): DeployConfigFactory;
+export function defineConfig(config: DeployConfigExport): DeployConfigExport {
   return config;
 }
@@ -1,16 +1,69 @@
 import { execa } from 'execa';
 import ora from 'ora';
+import { posix } from 'path';
 import { printError, printSuccess, printInfo, printWarning, colors } from './utils';
+import { executeRemoteCommand, getSSHArgs, openSSHConnection, remoteCommand, type SSHOptions } from './ssh';
+import { recordCommandOutput, trackRunProcess } from './events';
+import { DEFAULT_COMPOSE_FILES, getComposeConfig, getProjectPaths, type DeployConfig } from './config';
 
 /**
  * Opciones para comandos Docker
  */
 export interface DockerOptions {
   cwd?: string;
+  /** Opciones globales de compose: -f, --profile, -p (ver getComposeArgs) */
+  composeArgs?: string[];
   service?: string;
   env?: Record<string, string>;
 }
 
+/**
+ * Opciones globales de docker compose según la configuración: -f, --profile y -p
+ */
+export function getComposeArgs(config?: DeployConfig): string[] {
+  const { files, profiles, projectName } = getComposeConfig(config);
+
+  return [
+    ...files.flatMap(file => ['-f', file]),
+    ...profiles.flatMap(profile => ['--profile', profile]),
+    ...(projectName ? ['-p', projectName] : []),
+  ];
+}
+
+/**
+ * Directorio y opciones de compose para ejecutar docker compose en local
+ */
+export function getLocalComposeOptions(config?: DeployConfig): Pick<DockerOptions, 'cwd' | 'composeArgs'> {
+  return {
+    cwd: getProjectPaths(config).composeDir,
+    composeArgs: getComposeArgs(config),
+  };
+}
+
+/**
+ * Directorio de compose en el servidor
+ */
+export function getRemoteComposeDir(deploymentPath: string, config?: DeployConfig): string {
+  return posix.join(deploymentPath, getComposeConfig(config).dir);
+}
+
+/**
+ * Comando docker compose para ejecutar en el servidor (cd al directorio de compose)
+ * ej: getRemoteComposeCommand(path, ['up', '-d', '--wait'], config)
+ */
+export function getRemoteComposeCommand(deploymentPath: string, args: string[], config?: DeployConfig): string {
+  const composeDir = getRemoteComposeDir(deploymentPath, config);
+
+  return remoteCommand`cd ${composeDir} && docker compose ${[...getComposeArgs(config), ...args]}`;
+}
+
+/**
+ * Argumentos de docker para un subcomando de compose
+ */
+function composeCommand(options: DockerOptions, ...args: string[]): string[] {
+  return ['compose', ...(options.composeArgs || []), ...args];
+}
+
 /**
  * Status de un contenedor
  */
@@ -29,15 +82,18 @@ export async function dockerComposePull(options: DockerOptions = {}): Promise<vo
   const spinner = ora('Pulling Docker images...').start();
 
   try {
-    const args = ['compose', 'pull'];
+    const args = composeCommand(options, 'pull');
     if (service) {
       args.push(service);
     }
 
-    const { stdout } = await execa('docker', args, {
+    const result = await trackRunProcess(execa('docker', args, {
       cwd: cwd || process.cwd(),
       all: true,
-    });
+    }));
+    recordCommandOutput(result);
+
+    const { stdout } = result;
 
     spinner.succeed('Docker images pulled successfully');
 
@@ -46,6 +102,7 @@ export async function dockerComposePull(options: DockerOptions = {}): Promise<vo
       printInfo('All images are up to date');
     }
   } catch (error: any) {
+    recordCommandOutput(error);
     spinner.fail('Failed to pull Docker images');
     printError(error.stderr || error.message);
     throw error;
@@ -60,15 +117,24 @@ export async function dockerComposeUp(options: DockerOptions & {
   detached?: boolean;
   forceRecreate?: boolean;
   noDeps?: boolean;
+  /** Varios servicios a la vez (en lugar de `service`) */
+  services?: string[];
+  /** Esperar a que estén running/healthy (--wait) */
+  wait?: boolean;
 } = {}): Promise<void> {
-  const { cwd, service, build = true, detached = true, forceRecreate = false, noDeps = false } = options;
+  const { cwd, build = true, detached = true, forceRecreate = false, noDeps = false, wait = false } = options;
+  const service = options.services ? options.services.join(', ') : options.service;
 
-  const args = ['compose', 'up'];
+  const args = composeCommand(options, 'up');
 
   if (detached) {
     args.push('-d');
   }
 
+  if (wait) {
+    args.push('--wait');
+  }
+
   if (build) {
     args.push('--build');
   }
@@ -81,7 +147,9 @@ export async function dockerComposeUp(options: DockerOptions & {
     args.push('--no-deps');
   }
 
-  if (service) {
+  if (options.services) {
+    args.push(...options.services);
+  } else if (service) {
     args.push(service);
   }
 
@@ -92,9 +160,10 @@ export async function dockerComposeUp(options: DockerOptions & {
   const spinner = ora(actionText).start();
 
   try {
-    await execa('docker', args, {
+    const result = await trackRunProcess(execa('docker', args, {
       cwd: cwd || process.cwd(),
-    });
+    }));
+    recordCommandOutput(result);
 
     spinner.succeed(
       service
@@ -102,6 +171,7 @@ export async function dockerComposeUp(options: DockerOptions & {
         : 'Docker stack started successfully'
     );
   } catch (error: any) {
+    recordCommandOutput(error);
     spinner.fail('Failed to start containers');
     printError(error.stderr || error.message);
     throw error;
@@ -115,7 +185,7 @@ export async function dockerComposeDown(options: DockerOptions & {
   volumes?: boolean;
 } = {}): Promise<void> {
   const { cwd, volumes = false } = options;
-  const args = ['compose', 'down'];
+  const args = composeCommand(options, 'down');
 
   if (volumes) {
     args.push('-v');
@@ -124,12 +194,14 @@ export async function dockerComposeDown(options: DockerOptions & {
   const spinner = ora('Stopping Docker stack...').start();
 
   try {
-    await execa('docker', args, {
+    const result = await trackRunProcess(execa('docker', args, {
       cwd: cwd || process.cwd(),
-    });
+    }));
+    recordCommandOutput(result);
 
     spinner.succeed('Docker stack stopped successfully');
   } catch (error: any) {
+    recordCommandOutput(error);
     spinner.fail('Failed to stop Docker stack');
     printError(error.stderr || error.message);
     throw error;
@@ -140,8 +212,8 @@ export async function dockerComposeDown(options: DockerOptions & {
  * Ejecuta docker compose build
  */
 export async function dockerComposeBuild(options: DockerOptions = {}): Promise<void> {
-  const { cwd, service } = options;
-  const args = ['compose', 'build'];
+  const { cwd, service, env } = options;
+  const args = composeCommand(options, 'build');
 
   if (service) {
     args.push(service);
@@ -152,9 +224,11 @@ export async function dockerComposeBuild(options: DockerOptions = {}): Promise<v
   ).start();
 
   try {
-    await execa('docker', args, {
+    const result = await trackRunProcess(execa('docker', args, {
       cwd: cwd || process.cwd(),
-    });
+      env,
+    }));
+    recordCommandOutput(result);
 
     spinner.succeed(
       service
@@ -162,6 +236,7 @@ export async function dockerComposeBuild(options: DockerOptions = {}): Promise<v
         : 'Services built successfully'
     );
   } catch (error: any) {
+    recordCommandOutput(error);
     spinner.fail('Build failed');
     printError(error.stderr || error.message);
     throw error;
@@ -177,7 +252,7 @@ export async function getContainerStatus(options: DockerOptions = {}): Promise<C
   try {
     const { stdout } = await execa(
       'docker',
-      ['compose', 'ps', '--format', '{{.Name}}|{{.State}}|{{.Status}}|{{.Service}}'],
+      composeCommand(options, 'ps', '--format', '{{.Name}}|{{.State}}|{{.Status}}|{{.Service}}'),
       {
         cwd: cwd || process.cwd(),
       }
@@ -199,6 +274,17 @@ export async function getContainerStatus(options: DockerOptions = {}): Promise<C
   }
 }
 
+/**
+ * Servicios definidos en los archivos de compose (docker compose config --services)
+ */
+export async function getComposeServices(options: DockerOptions = {}): Promise<string[]> {
+  const { stdout } = await execa('docker', composeCommand(options, 'config', '--services'), {
+    cwd: options.cwd || process.cwd(),
+  });
+
+  return stdout.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
 /**
  * Verifica si los contenedores existen
  */
@@ -219,7 +305,7 @@ export async function getContainerLogs(
   try {
     const { stdout } = await execa(
       'docker',
-      ['compose', 'logs', '--tail', String(tail), serviceName],
+      composeCommand(options, 'logs', '--tail', String(tail), serviceName),
       {
         cwd: cwd || process.cwd(),
       }
@@ -301,12 +387,279 @@ export async function checkDockerDaemon(): Promise<boolean> {
 }
 
 /**
- * Verifica si docker-compose.yml existe
+ * Verifica si los archivos compose existen
+ * Sin files indicados basta con uno de los nombres que compose encuentra solo
  */
-export async function checkDockerComposeFile(cwd?: string): Promise<boolean> {
+export async function checkDockerComposeFile(cwd?: string, files?: string[]): Promise<boolean> {
   const { existsSync } = await import('fs');
   const { join } = await import('path');
 
-  const path = join(cwd || process.cwd(), 'docker-compose.yml');
-  return existsSync(path);
+  const dir = cwd || process.cwd();
+
+  if (files && files.length > 0) {
+    return files.every(file => existsSync(join(dir, file)));
+  }
+
+  return DEFAULT_COMPOSE_FILES.some(file => existsSync(join(dir, file)));
+}
+
+/**
+ * Imagen Docker etiquetada para un deployment concreto
+ */
+export interface DeployedImage {
+  service: string;
+  image: string;
+  tag: string;
+}
+
+/**
+ * Opciones para operaciones Docker en el servidor remoto
+ */
+export interface RemoteDockerOptions {
+  /** deployment.path en el servidor */
+  path: string;
+  ssh: SSHOptions;
+  /** Para el directorio y las opciones de compose (default: packages/backend) */
+  config?: DeployConfig;
+}
+
+/**
+ * Quita el tag de una referencia de imagen (respeta registries con puerto)
+ */
+function getImageRepository(image: string): string {
+  const lastSlash = image.lastIndexOf('/');
+  const lastColon = image.lastIndexOf(':');
+
+  return lastColon > lastSlash ? image.substring(0, lastColon) : image;
+}
+
+/**
+ * Obtiene la imagen que usa cada servicio de docker compose en el servidor remoto
+ */
+export async function getRemoteComposeImages(
+  remote: RemoteDockerOptions
+): Promise<Array<{ service: string; image: string }>> {
+  const result = await executeRemoteCommand(
+    getRemoteComposeCommand(remote.path, ['ps', '--format', '{{.Service}}|{{.Image}}'], remote.config),
+    remote.ssh
+  );
+
+  if (result.exitCode !== 0 || !result.stdout.trim()) {
+    return [];
+  }
+
+  return result.stdout
+    .trim()
+    .split('\n')
+    .map(line => {
+      const [service, image] = line.split('|');
+      return { service, image };
+    })
+    .filter(({ service, image }) => service && image);
+}
+
+/**
+ * Etiqueta las imágenes en uso con el id de deployment y el commit
+ * Estas etiquetas permiten volver a una versión anterior sin reconstruir
+ */
+export async function tagRemoteComposeImages(
+  tag: string,
+  remote: RemoteDockerOptions,
+  services?: string[]
+): Promise<DeployedImage[]> {
+  const spinner = ora(`Tagging Docker images as ${tag}...`).start();
+
+  const images = (await getRemoteComposeImages(remote)).filter(
+    ({ service }) => !services || services.includes(service)
+  );
+
+  const tagged: DeployedImage[] = [];
+
+  for (const { service, image } of images) {
+    const imageTag = `${getImageRepository(image)}:${tag}`;
+    const result = await executeRemoteCommand(remoteCommand`docker tag ${image} ${imageTag}`, remote.ssh);
+
+    if (result.exitCode !== 0) {
+      spinner.fail(`Failed to tag image for ${service}`);
+      throw new Error(result.stderr || `docker tag failed for ${image}`);
+    }
+
+    // Evitar duplicados cuando varios contenedores comparten servicio
+    if (!tagged.some(t => t.service === service)) {
+      tagged.push({ service, image, tag: imageTag });
+    }
+  }
+
+  if (tagged.length > 0) {
+    spinner.succeed(`Tagged ${tagged.length} image(s) as ${tag}`);
+  } else {
+    spinner.warn('No running images found to tag');
+  }
+
+  return tagged;
+}
+
+/**
+ * Restaura imágenes etiquetadas y reinicia los servicios afectados
+ * Re-apunta el nombre de imagen que usa docker compose al tag guardado
+ */
+export async function restoreRemoteComposeImages(
+  images: DeployedImage[],
+  remote: RemoteDockerOptions
+): Promise<void> {
+  const spinner = ora('Restoring tagged Docker images...').start();
+
+  for (const { service, image, tag } of images) {
+    const result = await executeRemoteCommand(remoteCommand`docker tag ${tag} ${image}`, remote.ssh);
+
+    if (result.exitCode !== 0) {
+      spinner.fail(`Failed to restore image for ${service}`);
+      throw new Error(result.stderr || `Image ${tag} not found on server`);
+    }
+  }
+
+  spinner.text = 'Restarting affected services...';
+
+  const services = images.map(i => i.service);
+  const result = await executeRemoteCommand(
+    getRemoteComposeCommand(
+      remote.path,
+      ['up', '-d', '--no-build', '--wait', '--wait-timeout', '120', ...services],
+      remote.config
+    ),
+    remote.ssh
+  );
+
+  if (result.exitCode !== 0) {
+    spinner.fail('Failed to restart services with previous images');
+    throw new Error(result.stderr || 'docker compose up failed');
+  }
+
+  spinner.succeed(`Restored ${images.length} service(s) to previous images`);
+}
+
+/**
+ * Imagen de un servicio con build en docker compose
+ */
+export interface ComposeImage {
+  service: string;
+  image: string;
+}
+
+/**
+ * Obtiene las imágenes que construye docker compose (servicios con `build`)
+ * Sin `image:` explícito, compose las nombra <proyecto>-<servicio>
+ */
+export async function getLocalComposeImages(options: DockerOptions = {}): Promise<ComposeImage[]> {
+  const { cwd, service } = options;
+
+  const { stdout } = await execa('docker', composeCommand(options, 'config', '--format', 'json'), {
+    cwd: cwd || process.cwd(),
+  });
+
+  const config = JSON.parse(stdout) as {
+    name: string;
+    services: Record<string, { image?: string; build?: unknown }>;
+  };
+
+  return Object.entries(config.services)
+    .filter(([name, definition]) => definition.build && (!service || name === service))
+    .map(([name, definition]) => ({
+      service: name,
+      image: definition.image || `${config.name}-${name}`,
+    }));
+}
+
+/**
+ * Envía imágenes locales al servidor: docker save | gzip | ssh docker load
+ */
+export async function transferImagesToRemote(images: ComposeImage[], ssh: SSHOptions): Promise<void> {
+  const { target, sshCmd = 'ssh' } = ssh;
+  const spinner = ora(`Transferring ${images.length} image(s) to ${target}...`).start();
+
+  const sshArgs = [...getSSHArgs(ssh), target];
+  const imageNames = images.map(i => i.image);
+
+  try {
+    await openSSHConnection(ssh);
+
+    // Pipeline en la shell local: mismas reglas de escapado que en el servidor
+    const result = await trackRunProcess(execa(
+      remoteCommand`docker save ${imageNames} | gzip | ${sshCmd} ${sshArgs} ${'gunzip | docker load'}`,
+      { shell: true }
+    ));
+    recordCommandOutput(result);
+
+    spinner.succeed(`Transferred ${images.length} image(s) to ${target}`);
+  } catch (error: any) {
+    recordCommandOutput(error);
+    spinner.fail('Failed to transfer images');
+    printError(error.stderr || error.message);
+    throw error;
+  }
+}
+
+/**
+ * Referencia de una imagen en el registry: <registry>/<nombre>:<tag>
+ */
+export function getRegistryImageRef(image: string, registry: string, tag: string): string {
+  const repository = getImageRepository(image);
+  const name = repository.substring(repository.lastIndexOf('/') + 1);
+
+  return `${registry.replace(/\/+$/, '')}/${name}:${tag}`;
+}
+
+/**
+ * Sube imágenes locales al registry
+ */
+export async function pushImagesToRegistry(
+  images: ComposeImage[],
+  registry: string,
+  tag: string
+): Promise<void> {
+  const spinner = ora(`Pushing ${images.length} image(s) to ${registry}...`).start();
+
+  try {
+    for (const { service, image } of images) {
+      const ref = getRegistryImageRef(image, registry, tag);
+
+      spinner.text = `Pushing ${service} (${ref})...`;
+      recordCommandOutput(await trackRunProcess(execa('docker', ['tag', image, ref])));
+      recordCommandOutput(await trackRunProcess(execa('docker', ['push', ref])));
+    }
+
+    spinner.succeed(`Pushed ${images.length} image(s) to ${registry}`);
+  } catch (error: any) {
+    recordCommandOutput(error);
+    spinner.fail('Failed to push images');
+    printError(error.stderr || error.message);
+    throw error;
+  }
+}
+
+/**
+ * Descarga las imágenes del registry en el servidor y las re-etiqueta
+ * con el nombre que espera docker compose
+ */
+export async function pullRemoteRegistryImages(
+  images: ComposeImage[],
+  registry: string,
+  tag: string,
+  ssh: SSHOptions
+): Promise<void> {
+  const spinner = ora(`Pulling ${images.length} image(s) on server...`).start();
+
+  for (const { service, image } of images) {
+    const ref = getRegistryImageRef(image, registry, tag);
+
+    spinner.text = `Pulling ${service} (${ref})...`;
+    const result = await executeRemoteCommand(remoteCommand`docker pull ${ref} && docker tag ${ref} ${image}`, ssh);
+
+    if (result.exitCode !== 0) {
+      spinner.fail(`Failed to pull image for ${service}`);
+      throw new Error(result.stderr || `docker pull failed for ${ref}`);
+    }
+  }
+
+  spinner.succeed(`Pulled ${images.length} image(s) on server`);
 }
@@ -0,0 +1,132 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import {
+  resolveConfigLocation,
+  readConfigFile,
+  getProjectPaths,
+  getComposeConfig,
+  getSyncEntries,
+  isFrontendEnabled,
+  type ConfigLocation,
+  type DeployConfig,
+  type Environment,
+  type ProjectPaths,
+} from './config';
+import { validateDeployConfig, formatConfigIssue, type ConfigValidationIssue } from './config-schema';
+import { colors } from './utils';
+
+/**
+ * Resultado de `deploy doctor`: qué config y qué raíz de proyecto se usan y
+ * si son válidas
+ */
+export interface DoctorReport {
+  cwd: string;
+  location: ConfigLocation;
+  /** El archivo de config existe pero no se pudo leer (error de sintaxis, sin export default...) */
+  loadError?: string;
+  issues: ConfigValidationIssue[];
+  paths?: ProjectPaths;
+  /** Rutas del proyecto en la config que no existen */
+  missingPaths: string[];
+  ok: boolean;
+}
+
+/**
+ * Describe de dónde sale el archivo de config
+ */
+function describeSource(location: ConfigLocation, cwd: string): string {
+  if (location.source === 'flag') return '--config';
+  if (location.source === 'env') return 'DEPLOKIT_CONFIG';
+  return `searched upward from ${cwd}`;
+}
+
+/**
+ * Resuelve el archivo de config y la raíz del proyecto y los comprueba
+ */
+export async function getDoctorReport(environment?: Environment): Promise<DoctorReport> {
+  const cwd = process.cwd();
+  const location = resolveConfigLocation();
+  const report: DoctorReport = { cwd, location, issues: [], missingPaths: [], ok: false };
+
+  if (!location.file) {
+    return report;
+  }
+
+  let config: unknown;
+
+  try {
+    config = await readConfigFile(location.file, environment);
+  } catch (error) {
+    report.loadError = error instanceof Error ? error.message : String(error);
+    return report;
+  }
+
+  report.issues = validateDeployConfig(config);
+  report.ok = report.issues.length === 0;
+
+  if (report.ok) {
+    const deployConfig = config as DeployConfig;
+    const paths = getProjectPaths(deployConfig);
+    const { files } = getComposeConfig(deployConfig);
+    const checked = [
+      paths.backend,
+      ...(files.length > 0 ? files.map(file => join(paths.composeDir, file)) : [paths.composeDir]),
+    ];
+
+    if (isFrontendEnabled(deployConfig)) {
+      checked.push(paths.frontend);
+    }
+
+    if (deployConfig.deployment.type === 'remote') {
+      checked.push(...getSyncEntries(deployConfig).map(entry => join(paths.root, entry.source)));
+    }
+
+    report.paths = paths;
+    report.missingPaths = [...new Set(checked)].filter(path => !existsSync(path));
+  }
+
+  return report;
+}
+
+/**
+ * Muestra el informe de doctor
+ */
+export function printDoctorReport(report: DoctorReport): void {
+  const { location } = report;
+
+  console.log(`  Working dir:   ${report.cwd}`);
+  console.log(
+    `  Config file:   ${location.file ? colors.highlight(location.file) : colors.error('not found')}` +
+      colors.gray(` (${describeSource(location, report.cwd)})`)
+  );
+  console.log(`  Project root:  ${location.root}`);
+
+  if (report.paths) {
+    console.log(`  Backend:       ${report.paths.backend}`);
+    console.log(`  Compose dir:   ${report.paths.composeDir}`);
+  }
+
+  console.log('');
+
+  if (!location.file) {
+    if (location.searched.length > 0) {
+      console.log(colors.error('No config file found in:'));
+      location.searched.forEach(dir => console.log(`  - ${dir}`));
+    } else {
+      console.log(colors.error(`Config file does not exist: ${location.requested}`));
+    }
+  } else if (report.loadError) {
+    console.log(colors.error(`Failed to load the config: ${report.loadError}`));
+  } else if (report.issues.length > 0) {
+    console.log(colors.error('Invalid configuration:'));
+    report.issues.forEach(issue => console.log(`  • ${formatConfigIssue(issue)}`));
+  } else {
+    console.log(colors.success('Configuration is valid'));
+  }
+
+  for (const path of report.missingPaths) {
+    console.log(colors.warning(`Path not found: ${path}`));
+  }
+
+  console.log('');
+}
@@ -0,0 +1,507 @@
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { stripVTControlCharacters } from 'util';
+import type { ExecaChildProcess } from 'execa';
+import type { Environment } from './config';
+import { saveDeploymentStep, type DeploymentType } from './history';
+
+/**
+ * Maximo de salida guardada por paso (se conserva el final)
+ */
+const MAX_STEP_OUTPUT = 200_000;
+
+/**
+ * Tipos de evento emitidos durante un deploy
+ */
+export type DeployEventType =
+  | 'deploy:start'
+  | 'step:start'
+  | 'step:complete'
+  | 'step:failed'
+  | 'deploy:progress'
+  | 'deploy:output'
+  | 'deploy:complete';
+
+/**
+ * Origen de una linea de salida del deploy
+ */
+export type DeployOutputStream = 'stdout' | 'stderr' | 'info';
+
+/**
+ * Resultado de un paso del deploy
+ */
+export interface DeployStepResult {
+  name: string;
+  status: 'success' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  duration: number;
+  error?: string;
+}
+
+/**
+ * Resultado final de un deploy
+ */
+export interface DeployResult {
+  success: boolean;
+  deploymentId?: number;
+  deploymentType: DeploymentType;
+  environment: Environment;
+  service?: string;
+  dryRun?: boolean;
+  duration: number;
+  error?: string;
+  /** El deploy se detuvo por una cancelacion (Ctrl+C o dashboard) */
+  cancelled?: boolean;
+  steps: DeployStepResult[];
+}
+
+/**
+ * Evento de deploy (una linea JSON en modo --json)
+ */
+export interface DeployEvent {
+  type: DeployEventType;
+  timestamp: string;
+  deploymentId?: number;
+  deploymentType: DeploymentType;
+  environment: Environment;
+  service?: string;
+  step?: string;
+  stepIndex?: number;
+  /** Pasos previstos del deploy (deploy:progress) */
+  total?: number;
+  line?: string;
+  stream?: DeployOutputStream;
+  duration?: number;
+  error?: string;
+  result?: DeployResult;
+}
+
+/**
+ * Datos de un deploy en curso
+ */
+export interface DeployRunInfo {
+  deploymentType: DeploymentType;
+  environment: Environment;
+  service?: string;
+  dryRun?: boolean;
+  /** Id de historial si ya existe al empezar (deploys lanzados desde el dashboard) */
+  deploymentId?: number;
+}
+
+/**
+ * Estado interno de un deploy en curso
+ */
+interface DeployRun extends DeployRunInfo {
+  startTime: number;
+  steps: DeployStepResult[];
+  plannedSteps?: string[];
+  currentStep?: { name: string; index: number; startTime: number; output: string };
+  /** Procesos hijos en ejecucion (se matan al cancelar) */
+  processes: Set<ExecaChildProcess>;
+  cancelled: boolean;
+}
+
+/**
+ * Error de un deploy cancelado antes de empezar un paso
+ */
+export class DeploymentCancelledError extends Error {
+  constructor(message = 'Deployment cancelled') {
+    super(message);
+    this.name = 'DeploymentCancelledError';
+  }
+}
+
+/**
+ * Salida de un comando ejecutado durante el deploy (resultado o error de execa)
+ */
+export interface CommandOutput {
+  command?: string;
+  stdout?: unknown;
+  stderr?: unknown;
+  exitCode?: number;
+}
+
+/**
+ * Emisor de eventos de deploy (CLI --json, dashboard)
+ */
+export const deployEvents = new EventEmitter();
+
+const runStorage = new AsyncLocalStorage<DeployRun>();
+
+/**
+ * Deploys en curso en este proceso
+ */
+const activeRuns = new Set<DeployRun>();
+
+/**
+ * Estado en vivo de un deploy en curso
+ */
+export interface DeployRunProgress {
+  step?: string;
+  stepIndex?: number;
+  total: number;
+  stepStartedAt?: string;
+  /** Salida del paso actual (los pasos terminados estan en deployment_steps) */
+  output: string;
+  steps: DeployStepResult[];
+}
+
+/**
+ * Emite un evento de deploy con los datos del deploy en curso
+ */
+function emitEvent(run: DeployRun, type: DeployEventType, data: Partial<DeployEvent> = {}): void {
+  const event: DeployEvent = {
+    type,
+    timestamp: new Date().toISOString(),
+    deploymentId: run.deploymentId,
+    deploymentType: run.deploymentType,
+    environment: run.environment,
+    service: run.service,
+    ...data,
+  };
+
+  deployEvents.emit('event', event);
+}
+
+/**
+ * Cierra el paso actual del deploy
+ */
+function finishStep(run: DeployRun, error?: unknown): void {
+  const step = run.currentStep;
+
+  if (!step) {
+    return;
+  }
+
+  const result: DeployStepResult = {
+    name: step.name,
+    status: error ? 'failed' : 'success',
+    startedAt: new Date(step.startTime).toISOString(),
+    finishedAt: new Date().toISOString(),
+    duration: Date.now() - step.startTime,
+    error: error ? errorMessage(error) : undefined,
+  };
+
+  run.steps.push(result);
+  run.currentStep = undefined;
+
+  if (run.deploymentId !== undefined) {
+    try {
+      saveDeploymentStep(run.deploymentId, { ...result, position: step.index, output: step.output });
+    } catch {
+      // El historial de pasos no debe romper el deploy
+    }
+  }
+
+  emitEvent(run, error ? 'step:failed' : 'step:complete', {
+    step: result.name,
+    stepIndex: step.index,
+    duration: result.duration,
+    error: result.error,
+  });
+}
+
+/**
+ * Mensaje legible de un error
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Ejecuta un deploy dentro de un contexto de eventos
+ * Los deploys anidados (deployAll -> deployBackend) comparten el contexto del padre
+ */
+export async function withDeployRun<T>(info: DeployRunInfo, task: () => Promise<T>): Promise<T> {
+  if (runStorage.getStore()) {
+    return task();
+  }
+
+  const run: DeployRun = {
+    ...info,
+    startTime: Date.now(),
+    steps: [],
+    processes: new Set(),
+    cancelled: false,
+  };
+
+  return runStorage.run(run, async () => {
+    activeRuns.add(run);
+    emitEvent(run, 'deploy:start');
+
+    try {
+      const value = await task();
+      finishStep(run);
+      emitEvent(run, 'deploy:complete', { result: getRunResult(run) });
+      return value;
+    } catch (error) {
+      finishStep(run, error);
+      emitEvent(run, 'deploy:complete', { result: getRunResult(run, error) });
+      throw error;
+    } finally {
+      activeRuns.delete(run);
+    }
+  });
+}
+
+/**
+ * Resultado del deploy en curso
+ */
+function getRunResult(run: DeployRun, error?: unknown): DeployResult {
+  return {
+    success: !error,
+    deploymentId: run.deploymentId,
+    deploymentType: run.deploymentType,
+    environment: run.environment,
+    service: run.service,
+    dryRun: run.dryRun,
+    duration: Date.now() - run.startTime,
+    error: error ? errorMessage(error) : undefined,
+    cancelled: run.cancelled || undefined,
+    steps: run.steps,
+  };
+}
+
+/**
+ * Estado en vivo de un deploy en curso en este proceso (null si no esta corriendo)
+ */
+export function getRunProgress(deploymentId: number): DeployRunProgress | null {
+  for (const run of activeRuns) {
+    if (run.deploymentId !== deploymentId) {
+      continue;
+    }
+
+    const step = run.currentStep;
+
+    return {
+      step: step?.name,
+      stepIndex: step?.index,
+      total: Math.max(run.plannedSteps?.length || 0, step?.index || 0),
+      stepStartedAt: step ? new Date(step.startTime).toISOString() : undefined,
+      output: step?.output || '',
+      steps: run.steps,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Asocia el id de historial al deploy en curso
+ */
+export function setRunDeploymentId(deploymentId: number): void {
+  const run = runStorage.getStore();
+
+  if (run && run.deploymentId === undefined) {
+    run.deploymentId = deploymentId;
+  }
+}
+
+/**
+ * Mata un comando del deploy
+ * Se cierra su salida para no esperar a los subprocesos de un shell que la mantengan abierta
+ */
+function killProcess(child: ExecaChildProcess): void {
+  child.kill('SIGTERM');
+  child.stdout?.destroy();
+  child.stderr?.destroy();
+}
+
+/**
+ * Cancela deploys en curso en este proceso: mata los comandos en ejecucion y
+ * el siguiente paso lanza DeploymentCancelledError
+ * Sin id cancela todos. Devuelve cuantos deploys se han cancelado
+ */
+export function cancelDeployRuns(deploymentId?: number): number {
+  let cancelled = 0;
+
+  for (const run of activeRuns) {
+    if (deploymentId !== undefined && run.deploymentId !== deploymentId) {
+      continue;
+    }
+
+    run.cancelled = true;
+    run.processes.forEach(killProcess);
+    cancelled++;
+  }
+
+  return cancelled;
+}
+
+/**
+ * Indica si el deploy en curso se ha cancelado
+ */
+export function isRunCancelled(): boolean {
+  return runStorage.getStore()?.cancelled ?? false;
+}
+
+/**
+ * Comando de un proceso hijo tal y como se escribiria en una terminal
+ */
+function getProcessCommand(child: ExecaChildProcess): string {
+  const [file, ...args] = child.spawnargs ?? [];
+
+  // Con shell: true el proceso es [sh, -c, comando]
+  return args.length === 2 && args[0] === '-c' ? args[1] : [file, ...args].join(' ');
+}
+
+/**
+ * Añade salida al paso actual del deploy (se conserva el final)
+ */
+function appendStepOutput(run: DeployRun, text: string): void {
+  const step = run.currentStep;
+
+  if (!step) {
+    return;
+  }
+
+  step.output += text;
+
+  if (step.output.length > MAX_STEP_OUTPUT) {
+    step.output = `[...truncated]\n${step.output.slice(-MAX_STEP_OUTPUT)}`;
+  }
+}
+
+/**
+ * Emite la salida de un comando linea a linea mientras se ejecuta (deploy:output)
+ * y la guarda en el paso actual
+ */
+function streamProcessOutput(run: DeployRun, child: ExecaChildProcess): void {
+  const command = getProcessCommand(child);
+
+  if (command) {
+    emitEvent(run, 'deploy:output', { line: `$ ${command}`, stream: 'info' });
+    appendStepOutput(run, `$ ${command}\n`);
+  }
+
+  const pipe = (readable: NodeJS.ReadableStream | null, stream: DeployOutputStream) => {
+    if (!readable) {
+      return;
+    }
+
+    let pending = '';
+
+    const emitLine = (line: string) => {
+      const clean = stripVTControlCharacters(line).trimEnd();
+
+      if (clean) {
+        emitEvent(run, 'deploy:output', { line: clean, stream });
+        appendStepOutput(run, `${clean}\n`);
+      }
+    };
+
+    readable.on('data', (chunk: Buffer | string) => {
+      // Las barras de progreso reescriben la linea con \r
+      const lines = (pending + String(chunk)).split(/\r?\n|\r/);
+      pending = lines.pop() ?? '';
+      lines.forEach(emitLine);
+    });
+    readable.on('end', () => {
+      emitLine(pending);
+      pending = '';
+    });
+  };
+
+  pipe(child.stdout, 'stdout');
+  pipe(child.stderr, 'stderr');
+}
+
+/**
+ * Registra un proceso hijo en el deploy en curso para poder matarlo al cancelar
+ * Los comandos lanzados tras la cancelacion (limpieza, lock) no se matan
+ */
+export function trackRunProcess<T extends ExecaChildProcess>(child: T): T {
+  const run = runStorage.getStore();
+
+  if (!run) {
+    return child;
+  }
+
+  streamProcessOutput(run, child);
+
+  if (run.cancelled) {
+    return child;
+  }
+
+  run.processes.add(child);
+
+  const untrack = () => {
+    run.processes.delete(child);
+  };
+  child.then(untrack, untrack);
+
+  return child;
+}
+
+/**
+ * Empieza un paso del deploy (cierra el anterior como completado)
+ * Lanza DeploymentCancelledError si el deploy se ha cancelado, salvo en pasos
+ * de recuperacion (cancellable: false)
+ */
+export function beginStep(name: string, options: { cancellable?: boolean } = {}): void {
+  const { cancellable = true } = options;
+  const run = runStorage.getStore();
+
+  if (!run) {
+    return;
+  }
+
+  finishStep(run);
+
+  if (run.cancelled && cancellable) {
+    throw new DeploymentCancelledError(`Deployment cancelled before step '${name}'`);
+  }
+
+  const index = run.steps.length + 1;
+  run.currentStep = { name, index, startTime: Date.now(), output: '' };
+
+  emitEvent(run, 'step:start', { step: name, stepIndex: index });
+  emitEvent(run, 'deploy:progress', {
+    step: name,
+    stepIndex: index,
+    total: Math.max(run.plannedSteps?.length || 0, index),
+  });
+}
+
+/**
+ * Indica los pasos previstos del deploy en curso (para el progreso)
+ * Los deploys anidados no cambian el plan del padre
+ */
+export function planRunSteps(steps: string[]): void {
+  const run = runStorage.getStore();
+
+  if (run && !run.plannedSteps) {
+    run.plannedSteps = steps;
+  }
+}
+
+/**
+ * Emite una linea de salida del deploy en curso (no hace nada fuera de un deploy)
+ */
+export function emitDeployOutput(line: string, stream: DeployOutputStream = 'info'): void {
+  const run = runStorage.getStore();
+
+  if (run) {
+    emitEvent(run, 'deploy:output', { line: stripVTControlCharacters(line), stream });
+  }
+}
+
+/**
+ * Cierra la salida de un comando en el paso actual del deploy con su codigo de salida
+ * La salida ya se ha emitido y guardado mientras se ejecutaba (trackRunProcess)
+ * Fuera de un deploy no hace nada
+ */
+export function recordCommandOutput(output: CommandOutput): void {
+  const run = runStorage.getStore();
+
+  // Errores que no vienen de un comando (sin `command`) no tienen salida que guardar
+  if (!run || !output.command) {
+    return;
+  }
+
+  if (output.exitCode) {
+    emitEvent(run, 'deploy:output', { line: `[exit ${output.exitCode}]`, stream: 'info' });
+    appendStepOutput(run, `[exit ${output.exitCode}]\n`);
+  }
+}
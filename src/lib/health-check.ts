@@ -1,10 +1,22 @@
 import { execa } from 'execa';
 import ora from 'ora';
 import { printError, printSuccess, printInfo, printWarning, colors, printTable, sleep } from './utils';
-import { getContainerStatus, getContainerLogs, type ContainerStatus } from './docker';
+import {
+  getContainerStatus,
+  getContainerLogs,
+  getLocalComposeOptions,
+  getRemoteComposeCommand,
+  type ContainerStatus,
+} from './docker';
 import type { DeployConfig } from './config';
-import { getDockerComposeServiceName, getActiveServices, getServiceConfig } from './config';
-import { executeRemoteCommand, type SSHOptions } from './ssh';
+import {
+  getDockerComposeServiceName,
+  getActiveServices,
+  getServiceConfig,
+  getFrontendServiceName,
+  getComposeConfig,
+} from './config';
+import { executeRemoteCommand, remoteCommand, type SSHOptions } from './ssh';
 
 /**
  * Resultado de health check
@@ -16,6 +28,22 @@ export interface HealthCheckResult {
   details?: string;
 }
 
+/**
+ * Health check fallido tras un deploy (onUnhealthy: fail | rollback)
+ */
+export class UnhealthyDeploymentError extends Error {
+  constructor(
+    public readonly results: HealthCheckResult[],
+    public readonly rolledBack: boolean
+  ) {
+    super(
+      `Unhealthy after deploy: ${results.map(r => `${r.service} (${r.message})`).join(', ')}` +
+        (rolledBack ? ' - rolled back to previous images' : '')
+    );
+    this.name = 'UnhealthyDeploymentError';
+  }
+}
+
 /**
  * Opciones para health check
  */
@@ -28,6 +56,45 @@ export interface HealthCheckOptions {
   retries?: number;
 }
 
+/**
+ * Status de los contenedores de compose en el servidor
+ */
+async function getRemoteContainerStatus(
+  remote: NonNullable<HealthCheckOptions['remote']>,
+  config?: DeployConfig
+): Promise<ContainerStatus[]> {
+  const command = getRemoteComposeCommand(
+    remote.path,
+    ['ps', '--format', '{{.Name}}|{{.State}}|{{.Status}}|{{.Service}}'],
+    config
+  );
+  const result = await executeRemoteCommand(command, remote.ssh);
+
+  if (!result.stdout.trim()) {
+    return [];
+  }
+
+  return result.stdout
+    .trim()
+    .split('\n')
+    .map(line => {
+      const [name, state, status, service] = line.split('|');
+      return { name, state, status, service };
+    });
+}
+
+/**
+ * Indica si un contenedor pertenece al proyecto: servicio o contenedor con el
+ * prefijo del proyecto, o del nombre de proyecto de compose (compose.projectName)
+ */
+function isProjectContainer(container: ContainerStatus, config: DeployConfig): boolean {
+  const prefixes = [config.project.name, getComposeConfig(config).projectName]
+    .filter((prefix): prefix is string => Boolean(prefix))
+    .map(prefix => `${prefix}-`);
+
+  return prefixes.some(prefix => container.service.startsWith(prefix) || container.name.startsWith(prefix));
+}
+
 /**
  * Verifica la salud de un contenedor Docker
  */
@@ -41,7 +108,7 @@ async function checkContainerHealth(
     let containerInfo: string;
 
     if (remote) {
-      const command = `cd ${remote.path}/packages/backend && docker inspect ${containerName} --format='{{.State.Health.Status}} {{.State.Status}}'`;
+      const command = remoteCommand`docker inspect ${containerName} --format=${'{{.State.Health.Status}} {{.State.Status}}'}`;
       const result = await executeRemoteCommand(command, remote.ssh);
       containerInfo = result.stdout.trim();
     } else {
@@ -137,7 +204,7 @@ async function checkContainerActualHealth(
     let healthInfo: string;
 
     if (remote) {
-      const command = `docker inspect ${containerName} --format='{{.State.Health.Status}}|{{.State.Status}}|{{.State.Running}}'`;
+      const command = remoteCommand`docker inspect ${containerName} --format=${'{{.State.Health.Status}}|{{.State.Status}}|{{.State.Running}}'}`;
       const result = await executeRemoteCommand(command, remote.ssh);
       healthInfo = result.stdout.trim();
     } else {
@@ -222,20 +289,9 @@ export async function checkBackendServices(
   let containers: ContainerStatus[] = [];
 
   if (remote) {
-    const command = `cd ${remote.path}/packages/backend && docker compose ps --format '{{.Name}}|{{.State}}|{{.Status}}|{{.Service}}'`;
-    const result = await executeRemoteCommand(command, remote.ssh);
-
-    if (result.stdout.trim()) {
-      containers = result.stdout
-        .trim()
-        .split('\n')
-        .map(line => {
-          const [name, state, status, service] = line.split('|');
-          return { name, state, status, service };
-        });
-    }
+    containers = await getRemoteContainerStatus(remote, config);
   } else {
-    containers = await getContainerStatus({ cwd: './packages/backend' });
+    containers = await getContainerStatus(getLocalComposeOptions(config));
   }
 
   if (containers.length === 0) {
@@ -245,9 +301,7 @@ export async function checkBackendServices(
 
   // Filter containers to only include those from this project
   const projectName = config.project.name;
-  const projectContainers = containers.filter(
-    c => c.service.startsWith(`${projectName}-`) || c.name.startsWith(`${projectName}-`)
-  );
+  const projectContainers = containers.filter(c => isProjectContainer(c, config));
 
   if (projectContainers.length === 0) {
     printWarning(`No containers found for project "${projectName}"`);
@@ -291,7 +345,7 @@ export async function checkBackendServices(
 
       // Show logs for failed containers
       if (!remote) {
-        const logs = await getContainerLogs(container.name, { tail: 20 });
+        const logs = await getContainerLogs(container.name, { ...getLocalComposeOptions(config), tail: 20 });
         if (logs) {
           printError(`Logs for ${container.service}:`);
           console.log(colors.gray(logs.split('\n').slice(-10).join('\n')));
@@ -368,7 +422,8 @@ export async function checkServiceHealthEndpoints(
 
     if (remote) {
       // For remote, check via SSH curl
-      const command = `curl -s -o /dev/null -w '%{http_code}' --max-time 5 http://localhost:${port}${healthEndpoint} 2>/dev/null || echo '000'`;
+      const url = `http://localhost:${port}${healthEndpoint}`;
+      const command = remoteCommand`curl -s -o /dev/null -w ${'%{http_code}'} --max-time 5 ${url} 2>/dev/null || echo '000'`;
 
       try {
         const result = await executeRemoteCommand(command, remote.ssh);
@@ -412,6 +467,44 @@ export async function checkServiceHealthEndpoints(
   return results;
 }
 
+/**
+ * Verifica el frontend publicado contra el dominio del proyecto
+ * Reintenta mientras Next.js termina de arrancar
+ */
+export async function checkFrontendHealth(
+  config: DeployConfig,
+  options: { baseUrl?: string; retries?: number; interval?: number } = {}
+): Promise<HealthCheckResult> {
+  const { baseUrl = `https://${config.project.domain}`, retries = 6, interval = 5000 } = options;
+  const endpoint = config.frontend?.healthEndpoint || '/';
+  const url = `${baseUrl}${endpoint}`;
+  const spinner = ora(`Checking frontend: ${url}`).start();
+
+  let result: HealthCheckResult = {
+    service: getFrontendServiceName(config),
+    healthy: false,
+    message: 'Not checked',
+  };
+
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    const check = await checkHTTPEndpoint(url, 200, 10000);
+    result = { ...check, service: getFrontendServiceName(config), details: check.details || url };
+
+    if (result.healthy) {
+      spinner.succeed(`Frontend is healthy (${result.message})`);
+      return result;
+    }
+
+    spinner.text = `Checking frontend: ${url} (attempt ${attempt}/${retries} - ${result.message})`;
+    if (attempt < retries) {
+      await sleep(interval);
+    }
+  }
+
+  spinner.fail(`Frontend health check failed: ${result.message}`);
+  return result;
+}
+
 /**
  * Espera a que los contenedores esten listos
  */
@@ -428,20 +521,9 @@ export async function waitForContainers(
     let containers: ContainerStatus[] = [];
 
     if (remote) {
-      const command = `cd ${remote.path}/packages/backend && docker compose ps --format '{{.Name}}|{{.State}}|{{.Status}}|{{.Service}}'`;
-      const result = await executeRemoteCommand(command, remote.ssh);
-
-      if (result.stdout.trim()) {
-        containers = result.stdout
-          .trim()
-          .split('\n')
-          .map(line => {
-            const [name, state, status, service] = line.split('|');
-            return { name, state, status, service };
-          });
-      }
+      containers = await getRemoteContainerStatus(remote, config);
     } else {
-      containers = await getContainerStatus({ cwd: './packages/backend' });
+      containers = await getContainerStatus(getLocalComposeOptions(config));
     }
 
     if (containers.length === 0) {
@@ -451,10 +533,7 @@ export async function waitForContainers(
 
     // Filter to only include containers from this project (if config provided)
     if (config) {
-      const projectName = config.project.name;
-      containers = containers.filter(
-        c => c.service.startsWith(`${projectName}-`) || c.name.startsWith(`${projectName}-`)
-      );
+      containers = containers.filter(c => isProjectContainer(c, config));
     }
 
     if (containers.length === 0) {
@@ -506,6 +585,17 @@ export async function runHealthCheck(
   config: DeployConfig,
   options: HealthCheckOptions = {}
 ): Promise<boolean> {
+  const results = await runDetailedHealthCheck(config, options);
+  return results.every(r => r.healthy);
+}
+
+/**
+ * Health check completo con el resultado de cada servicio
+ */
+export async function runDetailedHealthCheck(
+  config: DeployConfig,
+  options: HealthCheckOptions = {}
+): Promise<HealthCheckResult[]> {
   console.log('');
   printInfo('🏥 Running health checks...');
   console.log('');
@@ -540,35 +630,36 @@ export async function runHealthCheck(
 
   if (allHealthy) {
     printSuccess('All services are healthy ✓');
-    return true;
   } else {
     const unhealthyCount = healthEndpointResults.filter(r => !r.healthy).length;
     printError(`${unhealthyCount} service(s) are unhealthy`);
     printWarning('Check logs for details: deploy-toolkit status');
-    return false;
   }
+
+  return healthEndpointResults;
 }
 
 /**
  * Muestra status detallado de servicios
  */
-export async function showDetailedStatus(options: HealthCheckOptions = {}): Promise<void> {
-  const { remote } = options;
+export async function showDetailedStatus(
+  options: HealthCheckOptions & { config?: DeployConfig } = {}
+): Promise<void> {
+  const { remote, config } = options;
 
   printInfo('Fetching detailed container status...');
   console.log('');
 
   if (remote) {
-    const command = `cd ${remote.path}/packages/backend && docker compose ps -a`;
+    const command = getRemoteComposeCommand(remote.path, ['ps', '-a'], config);
     const result = await executeRemoteCommand(command, remote.ssh);
 
     if (result.stdout) {
       console.log(result.stdout);
     }
   } else {
-    const { stdout } = await execa('docker', ['compose', 'ps', '-a'], {
-      cwd: './packages/backend',
-    });
+    const { cwd, composeArgs = [] } = getLocalComposeOptions(config);
+    const { stdout } = await execa('docker', ['compose', ...composeArgs, 'ps', '-a'], { cwd });
 
     console.log(stdout);
   }
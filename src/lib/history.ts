@@ -1,8 +1,12 @@
 import { Database } from 'bun:sqlite';
 import { join } from 'path';
 import { format } from 'date-fns';
-import { printSuccess, printInfo, printError, printWarning, printTable, colors } from './utils';
-import type { Environment } from './config';
+import { printSuccess, printInfo, printError, printWarning, printTable, colors, confirm, isNonInteractive, isAssumeYes } from './utils';
+import { loadDeployConfig, getSSHConfig, getActiveServices, type Environment } from './config';
+import { restoreRemoteComposeImages, type DeployedImage } from './docker';
+import { acquireDeployLock, releaseDeployLock, DeployLockError, type DeployLockInfo } from './lock';
+import { writeDeployedVersion } from './version';
+import { executeRemoteCommand, remoteCommand } from './ssh';
 
 /**
  * Tipos de deployment
@@ -12,7 +16,7 @@ export type DeploymentType = 'full' | 'backend' | 'frontend' | 'service';
 /**
  * Status de deployment
  */
-export type DeploymentStatus = 'pending' | 'in_progress' | 'success' | 'failed' | 'rolled_back';
+export type DeploymentStatus = 'pending' | 'in_progress' | 'success' | 'failed' | 'rolled_back' | 'cancelled';
 
 /**
  * Registro de deployment
@@ -27,9 +31,75 @@ export interface DeploymentRecord {
   duration?: number;
   status: DeploymentStatus;
   logs?: string;
+  images?: string;
   user: string;
 }
 
+/**
+ * Paso de un deployment (tabla deployment_steps)
+ */
+export interface DeploymentStepRecord {
+  id: number;
+  deployment_id: number;
+  position: number;
+  name: string;
+  status: 'success' | 'failed';
+  started_at: string;
+  finished_at: string;
+  duration: number;
+  error?: string;
+  output?: string;
+}
+
+/**
+ * Opciones para guardar un paso de deployment
+ */
+export interface SaveDeploymentStepOptions {
+  position: number;
+  name: string;
+  status: 'success' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  /** Duracion en milisegundos */
+  duration: number;
+  error?: string;
+  output?: string;
+}
+
+/**
+ * Status de una solicitud de aprobación de deploy
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Solicitud de aprobación de un deploy del dashboard (tabla deployment_approvals)
+ */
+export interface DeploymentApprovalRecord {
+  id: number;
+  created_at: string;
+  environment: Environment;
+  type: DeploymentType;
+  service?: string;
+  /** Opciones del deploy solicitado (JSON) */
+  options?: string;
+  requested_by: string;
+  status: ApprovalStatus;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  deployment_id?: number;
+}
+
+/**
+ * Opciones para guardar una solicitud de aprobación
+ */
+export interface SaveApprovalRequestOptions {
+  environment: Environment;
+  type: DeploymentType;
+  service?: string;
+  options?: Record<string, unknown>;
+  requestedBy: string;
+}
+
 /**
  * Opciones para guardar deployment
  */
@@ -70,10 +140,51 @@ function getDatabase(): Database {
       status TEXT NOT NULL,
       logs TEXT,
       user TEXT NOT NULL,
+      images TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
+  // Migrar bases de datos creadas antes de la columna images
+  const columns = db.prepare('PRAGMA table_info(deployments)').all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === 'images')) {
+    db.run('ALTER TABLE deployments ADD COLUMN images TEXT');
+  }
+
+  // Pasos de cada deployment con la salida de los comandos ejecutados
+  db.run(`
+    CREATE TABLE IF NOT EXISTS deployment_steps (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      deployment_id INTEGER NOT NULL REFERENCES deployments(id),
+      position INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      duration INTEGER NOT NULL,
+      error TEXT,
+      output TEXT
+    )
+  `);
+  db.run('CREATE INDEX IF NOT EXISTS idx_deployment_steps_deployment ON deployment_steps (deployment_id)');
+
+  // Solicitudes de aprobación de deploys del dashboard
+  db.run(`
+    CREATE TABLE IF NOT EXISTS deployment_approvals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      environment TEXT NOT NULL,
+      type TEXT NOT NULL,
+      service TEXT,
+      options TEXT,
+      requested_by TEXT NOT NULL,
+      status TEXT NOT NULL,
+      reviewed_by TEXT,
+      reviewed_at TEXT,
+      deployment_id INTEGER REFERENCES deployments(id)
+    )
+  `);
+
   return db;
 }
 
@@ -146,6 +257,180 @@ export function updateDeploymentStatus(
   db.close();
 }
 
+/**
+ * Guarda un paso terminado de un deployment
+ */
+export function saveDeploymentStep(deploymentId: number, step: SaveDeploymentStepOptions): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO deployment_steps (deployment_id, position, name, status, started_at, finished_at, duration, error, output)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    deploymentId,
+    step.position,
+    step.name,
+    step.status,
+    step.startedAt,
+    step.finishedAt,
+    step.duration,
+    step.error || null,
+    step.output || null
+  );
+
+  db.close();
+}
+
+/**
+ * Obtiene los pasos de un deployment en orden de ejecucion
+ */
+export function getDeploymentSteps(deploymentId: number): DeploymentStepRecord[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare('SELECT * FROM deployment_steps WHERE deployment_id = ? ORDER BY position, id');
+  const rows = stmt.all(deploymentId) as DeploymentStepRecord[];
+
+  db.close();
+
+  return rows;
+}
+
+/**
+ * Guarda una solicitud de aprobación de deploy (status pending)
+ */
+export function saveApprovalRequest(options: SaveApprovalRequestOptions): number {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO deployment_approvals (created_at, environment, type, service, options, requested_by, status)
+    VALUES (?, ?, ?, ?, ?, ?, 'pending')
+  `);
+
+  const result = stmt.run(
+    new Date().toISOString(),
+    options.environment,
+    options.type,
+    options.service || null,
+    options.options ? JSON.stringify(options.options) : null,
+    options.requestedBy
+  );
+
+  db.close();
+
+  return result.lastInsertRowid as number;
+}
+
+/**
+ * Obtiene una solicitud de aprobación por ID
+ */
+export function getApprovalRequest(id: number): DeploymentApprovalRecord | null {
+  const db = getDatabase();
+
+  const stmt = db.prepare('SELECT * FROM deployment_approvals WHERE id = ?');
+  const row = stmt.get(id) as DeploymentApprovalRecord | null;
+
+  db.close();
+
+  return row;
+}
+
+/**
+ * Obtiene las solicitudes de aprobación (las más recientes primero)
+ */
+export function getApprovalRequests(status?: ApprovalStatus, limit: number = 20): DeploymentApprovalRecord[] {
+  const db = getDatabase();
+
+  const rows = status
+    ? (db
+        .prepare('SELECT * FROM deployment_approvals WHERE status = ? ORDER BY id DESC LIMIT ?')
+        .all(status, limit) as DeploymentApprovalRecord[])
+    : (db.prepare('SELECT * FROM deployment_approvals ORDER BY id DESC LIMIT ?').all(limit) as DeploymentApprovalRecord[]);
+
+  db.close();
+
+  return rows;
+}
+
+/**
+ * Aprueba o rechaza una solicitud pendiente
+ * Devuelve false si ya no estaba pendiente (otro usuario la revisó antes)
+ */
+export function reviewApprovalRequest(
+  id: number,
+  status: Exclude<ApprovalStatus, 'pending'>,
+  reviewedBy: string
+): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    UPDATE deployment_approvals
+    SET status = ?, reviewed_by = ?, reviewed_at = ?
+    WHERE id = ? AND status = 'pending'
+  `);
+
+  const result = stmt.run(status, reviewedBy, new Date().toISOString(), id);
+  db.close();
+
+  return result.changes > 0;
+}
+
+/**
+ * Asocia el deployment lanzado a una solicitud aprobada
+ */
+export function setApprovalDeploymentId(id: number, deploymentId: number): void {
+  const db = getDatabase();
+
+  db.prepare('UPDATE deployment_approvals SET deployment_id = ? WHERE id = ?').run(deploymentId, id);
+  db.close();
+}
+
+/**
+ * Guarda las imágenes Docker etiquetadas en un deployment
+ */
+export function saveDeploymentImages(id: number, images: DeployedImage[]): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare('UPDATE deployments SET images = ? WHERE id = ?');
+  stmt.run(JSON.stringify(images), id);
+
+  db.close();
+}
+
+/**
+ * Obtiene las imágenes Docker etiquetadas de un deployment
+ */
+export function getDeploymentImages(deployment: DeploymentRecord): DeployedImage[] {
+  if (!deployment.images) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(deployment.images) as DeployedImage[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Obtiene los deployments exitosos con imágenes etiquetadas (candidatos a rollback)
+ */
+function getRollbackCandidates(environment: Environment): DeploymentRecord[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM deployments
+    WHERE status = 'success' AND environment = ? AND images IS NOT NULL
+    ORDER BY id DESC
+  `);
+  const rows = stmt.all(environment) as DeploymentRecord[];
+
+  db.close();
+
+  return rows;
+}
+
 /**
  * Obtiene el historial de deployments
  */
@@ -234,6 +519,7 @@ export function printDeploymentHistory(limit: number = 10, environment?: Environ
     d.duration ? `${d.duration}s` : '-',
     d.status === 'success' ? colors.success(d.status) :
     d.status === 'failed' ? colors.error(d.status) :
+    d.status === 'cancelled' ? colors.warning(d.status) :
     d.status,
     d.user,
   ]);
@@ -241,40 +527,230 @@ export function printDeploymentHistory(limit: number = 10, environment?: Environ
   printTable(headers, rows);
 }
 
+/**
+ * Color del status de un deployment o de un paso
+ */
+function colorStatus(status: string): string {
+  if (status === 'success') {
+    return colors.success(status);
+  }
+
+  if (status === 'failed') {
+    return colors.error(status);
+  }
+
+  if (status === 'cancelled') {
+    return colors.warning(status);
+  }
+
+  return status;
+}
+
+/**
+ * Muestra un deployment con la linea de tiempo de sus pasos y la salida de cada uno
+ */
+export function printDeploymentDetails(id: number, options: { output?: boolean } = {}): boolean {
+  const { output = true } = options;
+  const deployment = getDeploymentById(id);
+
+  if (!deployment) {
+    printError(`Deployment #${id} not found`);
+    return false;
+  }
+
+  console.log('');
+  console.log(colors.highlight(`Deployment #${deployment.id}`));
+  console.log('');
+  console.log(`  Date:        ${format(new Date(deployment.timestamp), 'MMM dd, yyyy HH:mm:ss')}`);
+  console.log(`  Environment: ${deployment.environment}`);
+  console.log(`  Type:        ${deployment.type}${deployment.service ? ` (${deployment.service})` : ''}`);
+  console.log(`  Commit:      ${deployment.commit_hash || '-'}`);
+  console.log(`  Duration:    ${deployment.duration ? `${deployment.duration}s` : '-'}`);
+  console.log(`  Status:      ${colorStatus(deployment.status)}`);
+  console.log(`  User:        ${deployment.user}`);
+  console.log('');
+
+  const steps = getDeploymentSteps(id);
+
+  if (steps.length === 0) {
+    printWarning('No steps recorded for this deployment');
+  } else {
+    printInfo('Timeline:');
+    console.log('');
+
+    const headers = ['#', 'Step', 'Started', 'Duration', 'Status'];
+    const rows = steps.map(step => [
+      String(step.position),
+      step.name,
+      format(new Date(step.started_at), 'HH:mm:ss'),
+      `${(step.duration / 1000).toFixed(1)}s`,
+      colorStatus(step.status),
+    ]);
+
+    printTable(headers, rows);
+  }
+
+  for (const step of steps) {
+    if (output && step.output) {
+      console.log('');
+      console.log(colors.highlight(`── ${step.name} ──`));
+      console.log(colors.gray(step.output.trimEnd()));
+    }
+
+    if (step.error) {
+      console.log('');
+      printError(`${step.name}: ${step.error}`);
+    }
+  }
+
+  if (deployment.logs) {
+    console.log('');
+    printInfo('Logs:');
+    console.log(colors.gray(deployment.logs));
+  }
+
+  console.log('');
+  return true;
+}
+
 /**
  * Marca un deployment como rolled back
  */
 export function markAsRolledBack(id: number): void {
-  updateDeploymentStatus(id, 'rolled_back');
+  const db = getDatabase();
+
+  // Solo cambia el status - se conservan duracion y logs del deployment original
+  db.prepare('UPDATE deployments SET status = ? WHERE id = ?').run('rolled_back', id);
+  db.close();
+
   printSuccess(`Deployment #${id} marked as rolled back`);
 }
 
 /**
- * Implementacion basica de rollback
+ * Rollback a las imágenes de deployments anteriores
+ * Revierte los ultimos `steps` deployments exitosos re-etiquetando las imágenes
+ * guardadas y reiniciando solo los servicios afectados
  */
 export async function rollback(options: { environment?: Environment; steps?: number } = {}): Promise<void> {
-  const { environment, steps = 1 } = options;
+  const { environment = 'production', steps = 1 } = options;
+
+  const config = await loadDeployConfig(environment);
+  const sshConfig = getSSHConfig(config);
+
+  if (!sshConfig) {
+    printWarning('Rollback is only available for remote deployments');
+    return;
+  }
+
+  const candidates = getRollbackCandidates(environment);
+
+  if (candidates.length <= steps) {
+    printError(`Not enough tagged deployments to roll back ${steps} step(s) in ${environment}`);
+    throw new Error('No previous deployment to roll back to');
+  }
 
-  printWarning('Rollback functionality is not yet fully implemented');
-  printInfo('This would require:');
-  console.log('  - Backup of previous deployments');
-  console.log('  - Version tagging in Docker images');
-  console.log('  - Database migration rollback mechanism');
+  const reverted = candidates.slice(0, steps);
+  const previous = candidates.slice(steps);
+
+  // Servicios afectados por los deployments que se revierten
+  const affectedServices = [
+    ...new Set(reverted.flatMap(d => getDeploymentImages(d).map(i => i.service))),
+  ];
+
+  // Para cada servicio, la imagen del deployment anterior mas reciente que lo incluya
+  const targets: Array<DeployedImage & { deploymentId: number }> = [];
+
+  for (const service of affectedServices) {
+    const source = previous.find(d => getDeploymentImages(d).some(i => i.service === service));
+
+    if (!source) {
+      printWarning(`No previous image found for ${service} - it will keep its current version`);
+      continue;
+    }
+
+    const image = getDeploymentImages(source).find(i => i.service === service)!;
+    targets.push({ ...image, deploymentId: source.id });
+  }
+
+  if (targets.length === 0) {
+    printError('No previous images available to roll back to');
+    throw new Error('No previous images available');
+  }
+
+  printInfo(`Rolling back ${reverted.map(d => `#${d.id}`).join(', ')} (${environment}):`);
+  targets.forEach(t => {
+    console.log(`  - ${t.service}: ${colors.highlight(t.tag)} (deployment #${t.deploymentId})`);
+  });
   console.log('');
 
-  const lastSuccess = getLastSuccessfulDeployment(environment);
+  // Como un deploy a producción: sin prompts solo confirma un --yes explícito
+  if (isNonInteractive() && !isAssumeYes()) {
+    printError('Rollback needs --yes in non-interactive mode');
+    throw new Error('Rollback not confirmed: pass --yes');
+  }
 
-  if (lastSuccess) {
-    printInfo(`Last successful deployment was #${lastSuccess.id}:`);
-    console.log(`  - Date: ${format(new Date(lastSuccess.timestamp), 'MMM dd, yyyy HH:mm')}`);
-    console.log(`  - Type: ${lastSuccess.type}`);
-    console.log(`  - Commit: ${lastSuccess.commit_hash || 'unknown'}`);
-    console.log('');
+  const confirmed = isAssumeYes() || (await confirm('Proceed with rollback?', false));
 
-    printWarning('Manual rollback required - use git checkout and redeploy');
-  } else {
-    printError('No successful deployment found to rollback to');
+  if (!confirmed) {
+    printInfo('Rollback cancelled');
+    return;
+  }
+
+  // El rollback reinicia contenedores: no puede solaparse con un deploy en curso
+  let lock: DeployLockInfo;
+
+  try {
+    lock = await acquireDeployLock(config, { environment, deploymentType: 'rollback' });
+  } catch (error) {
+    if (error instanceof DeployLockError) {
+      printError(error.message);
+    }
+    throw error;
   }
+
+  try {
+    await restoreRemoteComposeImages(targets, {
+      path: config.deployment.path,
+      ssh: sshConfig.options,
+      config,
+    });
+
+    // --changed compara contra el commit del archivo de versión: solo se escribe si todas
+    // las imágenes restauradas son de un mismo deploy del backend; si no, se borra
+    const sources = [...new Set(targets.map(t => t.deploymentId))];
+    const restored = previous.find(d => d.id === sources[0]);
+    const versionFile = `${config.deployment.path}/.deployed-version`;
+
+    if (sources.length === 1 && restored?.commit_hash && (restored.type === 'backend' || restored.type === 'full')) {
+      await writeDeployedVersion({
+        remotePath: config.deployment.path,
+        ssh: sshConfig.options,
+        info: {
+          commitHash: restored.commit_hash,
+          backendCommitHash: restored.commit_hash,
+          timestamp: new Date().toISOString(),
+          environment,
+          services: getActiveServices(config),
+          deploymentType: restored.type,
+          deploymentId: restored.id,
+          user: getCurrentUser(),
+        },
+      });
+    } else {
+      printWarning("Restored images don't match one backend deployment - the next --changed deploy will deploy everything");
+      await executeRemoteCommand(remoteCommand`rm -f ${versionFile}`, sshConfig.options);
+    }
+
+    reverted.forEach(d => markAsRolledBack(d.id));
+  } finally {
+    try {
+      await releaseDeployLock(config, lock);
+    } catch (error) {
+      printWarning(`Failed to release deploy lock: ${error}`);
+    }
+  }
+
+  printSuccess('Rollback complete');
 }
 
 /**
@@ -293,6 +769,7 @@ export function cleanOldDeployments(keepLast: number = 50): number {
   `);
 
   const result = stmt.run(keepLast);
+  db.run('DELETE FROM deployment_steps WHERE deployment_id NOT IN (SELECT id FROM deployments)');
   db.close();
 
   const deleted = result.changes;
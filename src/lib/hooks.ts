@@ -0,0 +1,132 @@
+import { printInfo, printSuccess, printError, colors, execCommand } from './utils';
+import { executeRemoteCommand, remoteCommand, shellQuote } from './ssh';
+import { getProjectPaths, getSSHConfig } from './config';
+import type { DeployConfig, Environment, HookCommand, HookName } from './config';
+import type { DeploymentType } from './history';
+
+/**
+ * Contexto de deployment disponible para los hooks
+ */
+export interface HookContext {
+  deploymentId?: number;
+  environment: Environment;
+  deploymentType: DeploymentType;
+  commitHash?: string;
+  service?: string;
+  error?: string;
+}
+
+/**
+ * Opciones de ejecución de hooks
+ */
+export interface RunHookOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Normaliza la entrada de un hook a una lista de comandos
+ */
+export function getHookCommands(config: DeployConfig, name: HookName): HookCommand[] {
+  const entry = config.hooks?.[name];
+
+  if (!entry) {
+    return [];
+  }
+
+  const entries = Array.isArray(entry) ? entry : [entry];
+
+  return entries.map(e => (typeof e === 'string' ? { command: e, target: 'local' } : e));
+}
+
+/**
+ * Variables de entorno que reciben los hooks
+ */
+function getHookEnv(config: DeployConfig, name: HookName, context: HookContext): Record<string, string> {
+  const env: Record<string, string> = {
+    DEPLOY_HOOK: name,
+    DEPLOY_PROJECT: config.project.name,
+    DEPLOY_ENV: context.environment,
+    DEPLOY_TYPE: context.deploymentType,
+    DEPLOY_PATH: config.deployment.path,
+  };
+
+  if (context.deploymentId !== undefined) env.DEPLOY_ID = String(context.deploymentId);
+  if (context.commitHash) env.DEPLOY_COMMIT = context.commitHash;
+  if (context.service) env.DEPLOY_SERVICE = context.service;
+  if (context.error) env.DEPLOY_ERROR = context.error;
+
+  return env;
+}
+
+/**
+ * Exporta variables en un comando remoto (valores escapados con shellQuote)
+ */
+function withRemoteEnv(command: string, env: Record<string, string>): string {
+  const exports = Object.entries(env)
+    .map(([key, value]) => `export ${key}=${shellQuote(value)}`)
+    .join(' && ');
+
+  return `${exports} && ${command}`;
+}
+
+/**
+ * Ejecuta los comandos de un hook
+ * Un exit code distinto de 0 se trata como un paso fallido (lanza error)
+ */
+export async function runHook(
+  name: HookName,
+  config: DeployConfig,
+  context: HookContext,
+  options: RunHookOptions = {}
+): Promise<void> {
+  const commands = getHookCommands(config, name);
+
+  if (commands.length === 0) {
+    return;
+  }
+
+  const env = getHookEnv(config, name, context);
+
+  for (const { command, target = 'local' } of commands) {
+    if (options.dryRun) {
+      console.log(colors.gray(`  [dry-run] hook ${name} (${target}): ${command}`));
+      continue;
+    }
+
+    printInfo(`Running ${name} hook (${target}): ${command}`);
+
+    let result: { stdout: string; stderr: string; exitCode: number };
+
+    if (target === 'remote') {
+      const sshConfig = getSSHConfig(config);
+
+      if (!sshConfig) {
+        throw new Error(`Hook ${name} targets remote but deployment type is ${config.deployment.type}`);
+      }
+
+      result = await executeRemoteCommand(
+        withRemoteEnv(`${remoteCommand`cd ${config.deployment.path}`} && ${command}`, env),
+        sshConfig.options
+      );
+    } else {
+      result = await execCommand(command, [], {
+        cwd: getProjectPaths(config).root,
+        env,
+      });
+    }
+
+    if (result.stdout.trim()) {
+      console.log(colors.gray(result.stdout));
+    }
+
+    if (result.exitCode !== 0) {
+      printError(`Hook ${name} failed (exit code ${result.exitCode})`);
+      if (result.stderr.trim()) {
+        console.log(colors.gray(result.stderr));
+      }
+      throw new Error(`Hook ${name} failed: ${command}`);
+    }
+
+    printSuccess(`Hook ${name} completed`);
+  }
+}
@@ -0,0 +1,199 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { format } from 'date-fns';
+import { executeRemoteCommand, remoteCommand, type SSHOptions } from './ssh';
+import { getProjectPaths, getSSHConfig, type DeployConfig, type Environment } from './config';
+import { getCurrentUser } from './version';
+import { colors } from './utils';
+import type { DeploymentType } from './history';
+
+/**
+ * Nombre del archivo de lock (se guarda en deployment.path en el VPS)
+ */
+export const DEPLOY_LOCK_FILE = '.deploy-lock';
+
+/**
+ * Información del lock de deploy
+ */
+export interface DeployLockInfo {
+  token: string;
+  user: string;
+  host: string;
+  pid: number;
+  environment: Environment;
+  deploymentType: DeploymentType | 'rollback';
+  deploymentId?: number;
+  service?: string;
+  acquiredAt: string;
+}
+
+/**
+ * Opciones para tomar el lock de deploy
+ */
+export interface AcquireLockOptions {
+  environment: Environment;
+  deploymentType: DeploymentType | 'rollback';
+  deploymentId?: number;
+  service?: string;
+}
+
+/**
+ * Se lanza cuando otro deploy tiene el lock
+ */
+export class DeployLockError extends Error {
+  constructor(public readonly lock: DeployLockInfo | null) {
+    super(
+      lock
+        ? `Deployment locked by ${lock.user}@${lock.host} since ${lock.acquiredAt}` +
+            (lock.deploymentId ? ` (deployment #${lock.deploymentId})` : '')
+        : 'Deployment locked by another process'
+    );
+    this.name = 'DeployLockError';
+  }
+}
+
+/**
+ * Dónde está el lock: ruta del deployment en el VPS o raíz del proyecto en local
+ */
+function getLockLocation(config: DeployConfig): { file: string; ssh?: SSHOptions } {
+  const sshConfig = getSSHConfig(config);
+
+  if (sshConfig) {
+    return {
+      file: `${config.deployment.path}/${DEPLOY_LOCK_FILE}`,
+      ssh: sshConfig.options,
+    };
+  }
+
+  return { file: `${getProjectPaths(config).root}/${DEPLOY_LOCK_FILE}` };
+}
+
+/**
+ * Lee el lock de deploy actual (null si está libre)
+ */
+export async function getDeployLock(config: DeployConfig): Promise<DeployLockInfo | null> {
+  const { file, ssh } = getLockLocation(config);
+
+  let content = '';
+
+  if (ssh) {
+    const result = await executeRemoteCommand(remoteCommand`cat ${file} 2>/dev/null || echo ''`, ssh);
+    content = result.stdout;
+  } else if (existsSync(file)) {
+    content = readFileSync(file, 'utf-8');
+  }
+
+  if (!content.trim()) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(content) as DeployLockInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Toma el lock de deploy, o lanza DeployLockError si ya está tomado
+ * La creación es atómica (noclobber en el VPS, apertura exclusiva en local)
+ */
+export async function acquireDeployLock(
+  config: DeployConfig,
+  options: AcquireLockOptions
+): Promise<DeployLockInfo> {
+  const { file, ssh } = getLockLocation(config);
+
+  const lock: DeployLockInfo = {
+    token: randomUUID(),
+    user: getCurrentUser(),
+    host: hostname(),
+    pid: process.pid,
+    environment: options.environment,
+    deploymentType: options.deploymentType,
+    deploymentId: options.deploymentId,
+    service: options.service,
+    acquiredAt: new Date().toISOString(),
+  };
+
+  const content = JSON.stringify(lock, null, 2);
+
+  if (ssh) {
+    const base64Content = Buffer.from(content).toString('base64');
+    const result = await executeRemoteCommand(
+      remoteCommand`mkdir -p ${config.deployment.path} && (set -C; echo ${base64Content} | base64 -d > ${file}) 2>/dev/null`,
+      ssh
+    );
+
+    if (result.exitCode !== 0) {
+      throw new DeployLockError(await getDeployLock(config));
+    }
+  } else {
+    try {
+      writeFileSync(file, content, { flag: 'wx' });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        throw new DeployLockError(await getDeployLock(config));
+      }
+      throw error;
+    }
+  }
+
+  return lock;
+}
+
+/**
+ * Libera el lock de deploy
+ * Sin force, solo se borra el lock identificado por `lock.token`
+ */
+export async function releaseDeployLock(
+  config: DeployConfig,
+  lock?: DeployLockInfo,
+  options: { force?: boolean } = {}
+): Promise<boolean> {
+  const { file, ssh } = getLockLocation(config);
+
+  if (!options.force) {
+    const current = await getDeployLock(config);
+
+    if (!current || !lock || current.token !== lock.token) {
+      return false;
+    }
+  }
+
+  if (ssh) {
+    const result = await executeRemoteCommand(remoteCommand`rm -f ${file}`, ssh);
+    return result.exitCode === 0;
+  }
+
+  if (existsSync(file)) {
+    unlinkSync(file);
+  }
+
+  return true;
+}
+
+/**
+ * Muestra la información del lock de deploy en consola
+ */
+export function printDeployLock(lock: DeployLockInfo | null): void {
+  console.log('');
+
+  if (!lock) {
+    console.log(colors.success('  No deploy lock held'));
+    console.log('');
+    return;
+  }
+
+  console.log(colors.warning('Deploy lock held:'));
+  console.log('');
+  console.log(`  Holder:      ${colors.highlight(`${lock.user}@${lock.host}`)} (pid ${lock.pid})`);
+  console.log(`  Environment: ${lock.environment}`);
+  console.log(`  Type:        ${lock.deploymentType}${lock.service ? ` (${lock.service})` : ''}`);
+  if (lock.deploymentId) {
+    console.log(`  Deploy ID:   #${lock.deploymentId}`);
+  }
+  console.log(`  Since:       ${format(new Date(lock.acquiredAt), 'MMM dd, yyyy HH:mm:ss')}`);
+  console.log('');
+}
@@ -1,6 +1,14 @@
 import inquirer from 'inquirer';
 import { printHeader, printInfo, printWarning, colors } from './utils';
-import { loadDeployConfig, detectEnvironment, printConfigSummary, getActiveServices, type Environment } from './config';
+import {
+  loadDeployConfig,
+  detectEnvironment,
+  printConfigSummary,
+  getActiveServices,
+  resolveEnvironmentConfig,
+  type Environment,
+  type DeployConfig,
+} from './config';
 import { deployAll, deployBackend, deployFrontend, deployService } from './actions';
 import { runMigrations, printMigrationInfo } from './prisma';
 import { runHealthCheck, showDetailedStatus } from './health-check';
@@ -14,11 +22,18 @@ interface MenuState {
   config: any;
 }
 
+/**
+ * Configuracion resuelta para el entorno seleccionado en el menu
+ */
+function getEnvironmentConfig(state: MenuState): DeployConfig {
+  return resolveEnvironmentConfig(state.config, state.environment);
+}
+
 /**
  * Muestra el menu principal
  */
 export async function showInteractiveMenu(): Promise<void> {
-  const config = loadDeployConfig();
+  const config = await loadDeployConfig();
   const environment = detectEnvironment();
 
   printHeader(`DEPLOY MANAGER - ${config.project.name}`);
@@ -41,7 +56,7 @@ async function mainMenu(state: MenuState): Promise<void> {
 
     console.log(`  Environment: ${colors.highlight(state.environment.toUpperCase())}`);
     console.log(`  Project: ${colors.highlight(state.config.project.name)}`);
-    console.log(`  Type: ${colors.highlight(state.config.deployment.type)}`);
+    console.log(`  Type: ${colors.highlight(getEnvironmentConfig(state).deployment.type)}`);
     console.log('');
 
     const { action } = await inquirer.prompt([
@@ -112,7 +127,7 @@ async function handleAction(action: string, state: MenuState): Promise<void> {
       break;
 
     case 'show_config':
-      printConfigSummary(state.config);
+      printConfigSummary(getEnvironmentConfig(state), state.environment);
       break;
 
     case 'deploy_all':
@@ -192,7 +207,7 @@ async function changeEnvironment(state: MenuState): Promise<void> {
  */
 async function deploySpecificService(state: MenuState): Promise<void> {
   // Obtener servicios activos de la configuracion dinamicamente
-  const activeServices = getActiveServices(state.config);
+  const activeServices = getActiveServices(getEnvironmentConfig(state));
 
   if (activeServices.length === 0) {
     printWarning('No active services found in configuration');
@@ -235,16 +250,14 @@ async function runMigrationsInteractive(state: MenuState): Promise<void> {
 
   if (confirm) {
     const { getSSHConfig } = await import('./config');
-    const sshConfig = getSSHConfig(state.config);
+    const config = getEnvironmentConfig(state);
+    const sshConfig = getSSHConfig(config);
 
     await runMigrations({
       remote: sshConfig
         ? {
-            path: state.config.deployment.path,
-            ssh: {
-              target: sshConfig.target,
-              sshKey: state.config.deployment.ssh_key,
-            },
+            path: config.deployment.path,
+            ssh: sshConfig.options,
           }
         : undefined,
     });
@@ -256,16 +269,14 @@ async function runMigrationsInteractive(state: MenuState): Promise<void> {
  */
 async function runHealthCheckInteractive(state: MenuState): Promise<void> {
   const { getSSHConfig } = await import('./config');
-  const sshConfig = getSSHConfig(state.config);
+  const config = getEnvironmentConfig(state);
+  const sshConfig = getSSHConfig(config);
 
-  await runHealthCheck(state.config, {
+  await runHealthCheck(config, {
     remote: sshConfig
       ? {
-          path: state.config.deployment.path,
-          ssh: {
-            target: sshConfig.target,
-            sshKey: state.config.deployment.ssh_key,
-          },
+          path: config.deployment.path,
+          ssh: sshConfig.options,
         }
       : undefined,
   });
@@ -276,18 +287,17 @@ async function runHealthCheckInteractive(state: MenuState): Promise<void> {
  */
 async function showStatusInteractive(state: MenuState): Promise<void> {
   const { getSSHConfig } = await import('./config');
-  const sshConfig = getSSHConfig(state.config);
+  const config = getEnvironmentConfig(state);
+  const sshConfig = getSSHConfig(config);
 
   await showDetailedStatus({
     remote: sshConfig
       ? {
-          path: state.config.deployment.path,
-          ssh: {
-            target: sshConfig.target,
-            sshKey: state.config.deployment.ssh_key,
-          },
+          path: config.deployment.path,
+          ssh: sshConfig.options,
         }
       : undefined,
+    config,
   });
 }
 
@@ -317,8 +327,6 @@ async function showHistoryInteractive(state: MenuState): Promise<void> {
  * Rollback interactivo
  */
 async function rollbackInteractive(state: MenuState): Promise<void> {
-  printWarning('Rollback requires manual intervention');
-
   const { steps } = await inquirer.prompt([
     {
       type: 'number',
@@ -2,7 +2,9 @@ import { execa } from 'execa';
 import ora from 'ora';
 import { printError, printSuccess, printInfo, printWarning, colors } from './utils';
 import type { SSHOptions } from './ssh';
-import { executeRemoteCommand, wrapWithBunPath } from './ssh';
+import { executeRemoteCommand, remoteCommand, wrapWithBunPath } from './ssh';
+import { recordCommandOutput, trackRunProcess } from './events';
+import { getProjectPaths, type DeployConfig } from './config';
 
 /**
  * Opciones para comandos Prisma
@@ -13,6 +15,32 @@ export interface PrismaOptions {
   remote?: {
     path: string;
     ssh: SSHOptions;
+    /** Directorio del API en el servidor donde se ejecuta prisma (default: <path>/packages/backend/api) */
+    apiPath?: string;
+  };
+}
+
+/**
+ * Opciones de Prisma según paths.backend y paths.prisma de la configuración
+ * Con ssh, las rutas son las del proyecto en deployment.path del servidor
+ */
+export function getPrismaOptions(config: DeployConfig, ssh?: SSHOptions): PrismaOptions {
+  if (ssh) {
+    const remotePath = config.deployment.path;
+    const backend = config.paths?.backend || 'packages/backend';
+    const prisma = config.paths?.prisma || 'packages/shared/database/prisma';
+
+    return {
+      schemaPath: `${remotePath}/${prisma}/schema.prisma`,
+      remote: { path: remotePath, ssh, apiPath: `${remotePath}/${backend}/api` },
+    };
+  }
+
+  const paths = getProjectPaths(config);
+
+  return {
+    cwd: `${paths.backend}/api`,
+    schemaPath: `${paths.prisma}/schema.prisma`,
   };
 }
 
@@ -32,8 +60,9 @@ export async function runMigrations(options: PrismaOptions = {}): Promise<void>
   try {
     if (remote) {
       // Remote migrations via SSH
+      const apiPath = remote.apiPath || `${remote.path}/packages/backend/api`;
       const command = wrapWithBunPath(
-        `cd ${remote.path}/packages/backend/api && bunx prisma migrate deploy --schema=${schemaPath}`
+        remoteCommand`cd ${apiPath} && bunx prisma migrate deploy --schema=${schemaPath}`
       );
       const result = await executeRemoteCommand(command, remote.ssh);
 
@@ -66,9 +95,10 @@ export async function runMigrations(options: PrismaOptions = {}): Promise<void>
       // Local migrations
       const args = ['prisma', 'migrate', 'deploy', `--schema=${schemaPath}`];
 
-      const result = await execa('bunx', args, {
+      const result = await trackRunProcess(execa('bunx', args, {
         cwd: cwd || process.cwd(),
-      });
+      }));
+      recordCommandOutput(result);
 
       spinner.succeed('Prisma migrations applied successfully');
 
@@ -89,6 +119,7 @@ export async function runMigrations(options: PrismaOptions = {}): Promise<void>
       }
     }
   } catch (error: any) {
+    recordCommandOutput(error);
     spinner.fail('Prisma migrations failed');
     printError(error.stderr || error.message);
     throw error;
@@ -106,8 +137,9 @@ export async function generatePrismaClient(options: PrismaOptions = {}): Promise
   try {
     if (remote) {
       // Remote generation via SSH
+      const apiPath = remote.apiPath || `${remote.path}/packages/backend/api`;
       const command = wrapWithBunPath(
-        `cd ${remote.path}/packages/backend/api && bunx prisma generate --schema=${schemaPath}`
+        remoteCommand`cd ${apiPath} && bunx prisma generate --schema=${schemaPath}`
       );
       const result = await executeRemoteCommand(command, remote.ssh);
 
@@ -124,9 +156,9 @@ export async function generatePrismaClient(options: PrismaOptions = {}): Promise
       // Local generation
       const args = ['prisma', 'generate', `--schema=${schemaPath}`];
 
-      await execa('bunx', args, {
+      await trackRunProcess(execa('bunx', args, {
         cwd: cwd || process.cwd(),
-      });
+      }));
 
       spinner.succeed('Prisma Client generated successfully');
     }
@@ -151,18 +183,21 @@ export async function checkMigrationStatus(options: PrismaOptions = {}): Promise
 
     if (remote) {
       // Remote status via SSH
+      const apiPath = remote.apiPath || `${remote.path}/packages/backend/api`;
       const command = wrapWithBunPath(
-        `cd ${remote.path}/packages/backend/api && bunx prisma migrate status --schema=${schemaPath}`
+        remoteCommand`cd ${apiPath} && bunx prisma migrate status --schema=${schemaPath}`
       );
       const result = await executeRemoteCommand(command, remote.ssh);
       stdout = result.stdout;
     } else {
-      // Local status
+      // Local status (exit code 1 cuando hay migraciones pendientes)
       const args = ['prisma', 'migrate', 'status', `--schema=${schemaPath}`];
 
-      const result = await execa('bunx', args, {
+      const result = await trackRunProcess(execa('bunx', args, {
         cwd: cwd || process.cwd(),
-      });
+        reject: false,
+      }));
+      recordCommandOutput(result);
 
       stdout = result.stdout;
     }
@@ -180,7 +215,7 @@ export async function checkMigrationStatus(options: PrismaOptions = {}): Promise
         continue;
       }
 
-      if (isPendingSection && line.match(/^\s+\d+_/)) {
+      if (isPendingSection && line.match(/^\s*\d+_/)) {
         pending.push(line.trim());
       }
 
@@ -1,18 +1,61 @@
-import { loadDeployConfig, findConfigFile, getSSHConfig, getActiveServices } from '../config';
-import { deployAll, deployBackend, deployService } from '../actions';
-import { getDeploymentHistory, getDeploymentStats } from '../history';
+import { basename } from 'path';
+import {
+  loadDeployConfig,
+  findConfigFile,
+  getSSHConfig,
+  getActiveServices,
+  normalizeServiceName,
+  isEnvironment,
+  ENVIRONMENTS,
+} from '../config';
+import { deployAll, deployBackend, deployFrontend, deployService, type DeployOptions } from '../actions';
+import {
+  getDeploymentHistory,
+  getDeploymentById,
+  getDeploymentSteps,
+  getDeploymentStats,
+  saveDeployment,
+  updateDeploymentStatus,
+  getCurrentCommitHash,
+  saveApprovalRequest,
+  getApprovalRequest,
+  getApprovalRequests,
+  reviewApprovalRequest,
+  setApprovalDeploymentId,
+  type ApprovalStatus,
+  type DeploymentType,
+} from '../history';
+import { validateDeployConfig, formatConfigIssue } from '../config-schema';
+import { getRunProgress, cancelDeployRuns, DeploymentCancelledError } from '../events';
 import { runHealthCheck } from '../health-check';
 import { getDeployedVersion } from '../version';
+import { getDeployLock } from '../lock';
 import { getServiceStatus, broadcast } from './websocket';
+import {
+  authenticateRequest,
+  getAuthMode,
+  getCorsHeaders,
+  hasRole,
+  isOriginAllowed,
+  login,
+  logout,
+} from './auth';
 import type {
   ApiResponse,
+  ApprovalsResponse,
+  AuthSessionResponse,
+  ConfigValidationResponse,
   DeployRequest,
+  DeployCompleteData,
   DeployResponse,
+  DeploymentDetailsResponse,
+  DeploymentStatusResponse,
   HistoryResponse,
   StatsResponse,
   StatusResponse,
 } from './types';
-import type { Environment } from '../config';
+import type { DashboardRole, Environment } from '../config';
+import type { DashboardSession } from './auth';
 
 /**
  * JSON response helper
@@ -22,7 +65,6 @@ function jsonResponse<T>(data: ApiResponse<T>, status = 200): Response {
     status,
     headers: {
       'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
     },
   });
 }
@@ -45,27 +87,80 @@ async function parseBody<T>(req: Request): Promise<T | null> {
   }
 }
 
+/**
+ * 400 response for an `env` that isn't a known environment (a missing env is fine)
+ * An unknown env would otherwise fall back to the base deployment target
+ */
+function invalidEnvironmentResponse(env: unknown): Response | null {
+  if (env === undefined || env === null || env === '' || isEnvironment(env)) {
+    return null;
+  }
+
+  return errorResponse(`Unknown environment '${env}' (expected ${ENVIRONMENTS.join(', ')})`, 400);
+}
+
 /**
  * Handle API requests
  */
 export async function handleApiRequest(req: Request): Promise<Response> {
-  const url = new URL(req.url);
-  const path = url.pathname;
-  const method = req.method;
+  // Other sites can't drive the API from a browser (CSRF)
+  if (!isOriginAllowed(req)) {
+    return errorResponse('Origin not allowed', 403);
+  }
 
   // CORS preflight
-  if (method === 'OPTIONS') {
-    return new Response(null, {
-      status: 204,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      },
-    });
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) });
+  }
+
+  const response = await routeApiRequest(req);
+
+  for (const [name, value] of Object.entries(getCorsHeaders(req))) {
+    response.headers.set(name, value);
   }
 
+  return response;
+}
+
+/**
+ * Route an API request (auth endpoints are the only ones open without a token)
+ */
+async function routeApiRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const path = url.pathname;
+  const method = req.method;
+
   try {
+    // Auth endpoints
+    if (path === '/api/auth/session' && method === 'GET') {
+      return handleGetSession(req);
+    }
+    if (path === '/api/auth/login' && method === 'POST') {
+      return handleLogin(req);
+    }
+    if (path === '/api/auth/logout' && method === 'POST') {
+      logout(req);
+      return jsonResponse({ success: true });
+    }
+
+    const session = authenticateRequest(req);
+    if (!session) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const requiredRole = getRequiredRole(method, path);
+    if (!hasRole(session, requiredRole)) {
+      return errorResponse(`Forbidden: requires the ${requiredRole} role`, 403);
+    }
+
+    // ?env= is shared by the status, health, services, history, stats and version endpoints
+    const queryEnv = url.searchParams.get('env');
+    const invalidEnv = invalidEnvironmentResponse(queryEnv);
+    if (invalidEnv) {
+      return invalidEnv;
+    }
+    const env = (queryEnv || undefined) as Environment | undefined;
+
     // Config endpoints
     if (path === '/api/config' && method === 'GET') {
       return handleGetConfig();
@@ -76,41 +171,61 @@ export async function handleApiRequest(req: Request): Promise<Response> {
 
     // Status endpoints
     if (path === '/api/status' && method === 'GET') {
-      return handleGetStatus();
+      return handleGetStatus(env);
     }
     if (path === '/api/health' && method === 'GET') {
-      return handleGetHealth();
+      return handleGetHealth(env || 'production');
     }
     if (path === '/api/services' && method === 'GET') {
-      return handleGetServices();
+      return handleGetServices(env || 'production');
     }
 
     // Deploy endpoints
     if (path === '/api/deploy/all' && method === 'POST') {
-      return handleDeployAll(req);
+      return handleDeploy({ type: 'full' }, req, session);
     }
     if (path === '/api/deploy/backend' && method === 'POST') {
-      return handleDeployBackend(req);
+      return handleDeploy({ type: 'backend' }, req, session);
     }
     if (path.startsWith('/api/deploy/service/') && method === 'POST') {
       const serviceName = path.replace('/api/deploy/service/', '');
-      return handleDeployService(serviceName, req);
+      return handleDeploy({ type: 'service', service: serviceName }, req, session);
+    }
+
+    // Approval endpoints
+    if (path === '/api/approvals' && method === 'GET') {
+      const status = url.searchParams.get('status') as ApprovalStatus | null;
+      return handleGetApprovals(status || undefined);
+    }
+    const review = path.match(/^\/api\/approvals\/(\d+)\/(approve|reject)$/);
+    if (review && method === 'POST') {
+      return handleReviewApproval(parseInt(review[1], 10), review[2] === 'approve', session);
     }
 
     // History endpoints
     if (path === '/api/history' && method === 'GET') {
       const limit = parseInt(url.searchParams.get('limit') || '10');
-      const env = url.searchParams.get('env') as Environment | undefined;
       return handleGetHistory(limit, env);
     }
+    if (path.startsWith('/api/history/') && method === 'GET') {
+      const id = parseInt(path.replace('/api/history/', ''), 10);
+      return handleGetDeployment(id);
+    }
+    if (path.startsWith('/api/deployments/') && path.endsWith('/cancel') && method === 'POST') {
+      const id = parseInt(path.replace('/api/deployments/', '').replace('/cancel', ''), 10);
+      return handleCancelDeployment(id);
+    }
+    if (path.startsWith('/api/deployments/') && method === 'GET') {
+      const id = parseInt(path.replace('/api/deployments/', ''), 10);
+      return handleGetDeploymentStatus(id);
+    }
     if (path === '/api/stats' && method === 'GET') {
-      const env = url.searchParams.get('env') as Environment | undefined;
       return handleGetStats(env);
     }
 
     // Version endpoint
     if (path === '/api/version' && method === 'GET') {
-      return handleGetVersion();
+      return handleGetVersion(env || 'production');
     }
 
     return errorResponse('Not found', 404);
@@ -121,17 +236,116 @@ export async function handleApiRequest(req: Request): Promise<Response> {
 }
 
 /**
- * GET /api/config - Get current configuration
+ * Minimum role for an API call: reading needs viewer, changing the config
+ * needs admin, everything else (deploys, cancels, approvals) needs deployer
  */
-function handleGetConfig(): Response {
+function getRequiredRole(method: string, path: string): DashboardRole {
+  if (method === 'GET') {
+    return 'viewer';
+  }
+
+  if (path === '/api/config') {
+    return 'admin';
+  }
+
+  return 'deployer';
+}
+
+/**
+ * GET /api/auth/session - Auth mode and current user
+ */
+function handleGetSession(req: Request): Response {
+  const session = authenticateRequest(req);
+
+  const response: AuthSessionResponse = {
+    mode: getAuthMode(),
+    authenticated: session !== null,
+    user: session?.user,
+    role: session?.role,
+  };
+  return jsonResponse({ success: true, data: response });
+}
+
+/**
+ * POST /api/auth/login - Log a configured user in
+ */
+async function handleLogin(req: Request): Promise<Response> {
+  const body = await parseBody<{ username?: string; password?: string }>(req);
+
+  if (!body?.username || !body.password) {
+    return errorResponse('Missing username or password', 400);
+  }
+
+  const token = await login(body.username, body.password);
+  if (!token) {
+    return errorResponse('Invalid username or password', 401);
+  }
+
+  return jsonResponse({ success: true, data: { token, user: body.username } });
+}
+
+/**
+ * GET /api/config - Get current configuration (without the dashboard section)
+ */
+async function handleGetConfig(): Promise<Response> {
   try {
-    const config = loadDeployConfig();
+    const { dashboard, ...config } = await loadDeployConfig();
     return jsonResponse({ success: true, data: config });
   } catch (error) {
     return errorResponse(`Failed to load config: ${error}`);
   }
 }
 
+/**
+ * Config fields the dashboard can't change: the dashboard section (users, TLS) and
+ * everything that runs commands on this machine (hooks, build command, ssh -o options)
+ */
+const PROTECTED_CONFIG_FIELDS: string[][] = [
+  ['dashboard'],
+  ['hooks'],
+  ['frontend', 'buildCommand'],
+  ['deployment', 'ssh_options'],
+  ...ENVIRONMENTS.map(env => ['environments', env, 'ssh_options']),
+];
+
+/**
+ * Value at a path of nested objects (undefined if any level is missing)
+ */
+function getConfigField(config: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), config);
+}
+
+/**
+ * JSON object (not null or an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Copy the protected fields from the config on disk over an update
+ */
+function keepProtectedFields(update: Record<string, unknown>, current: unknown): Record<string, unknown> {
+  for (const path of PROTECTED_CONFIG_FIELDS) {
+    const parent = getConfigField(update, path.slice(0, -1));
+
+    if (!isPlainObject(parent)) {
+      continue;
+    }
+
+    const key = path[path.length - 1];
+    const value = getConfigField(current, path);
+
+    if (value === undefined) {
+      delete parent[key];
+    } else {
+      parent[key] = value;
+    }
+  }
+
+  return update;
+}
+
 /**
  * PUT /api/config - Update configuration
  */
@@ -147,13 +361,29 @@ async function handleUpdateConfig(req: Request): Promise<Response> {
       return errorResponse('Config file not found', 404);
     }
 
-    // Validate required fields
-    if (!body.project || !body.deployment) {
-      return errorResponse('Missing required fields: project, deployment', 400);
+    // deploy.config.ts/js is code: it can't be rewritten as JSON
+    if (!configPath.endsWith('.json')) {
+      return errorResponse(`${basename(configPath)} is code and can't be edited from the dashboard`, 409);
+    }
+
+    const current = JSON.parse(await Bun.file(configPath).text());
+    const updated = keepProtectedFields(body, current);
+
+    // Same validation as the CLI: nothing invalid reaches the file
+    const issues = validateDeployConfig(updated);
+    if (issues.length > 0) {
+      return jsonResponse<ConfigValidationResponse>(
+        {
+          success: false,
+          error: `Invalid configuration: ${issues.map(formatConfigIssue).join('; ')}`,
+          data: { issues },
+        },
+        400
+      );
     }
 
     // Write config file
-    await Bun.write(configPath, JSON.stringify(body, null, 2));
+    await Bun.write(configPath, JSON.stringify(updated, null, 2));
 
     return jsonResponse({ success: true, data: { message: 'Config updated' } });
   } catch (error) {
@@ -164,9 +394,9 @@ async function handleUpdateConfig(req: Request): Promise<Response> {
 /**
  * GET /api/status - Get container status
  */
-async function handleGetStatus(): Promise<Response> {
+async function handleGetStatus(env?: Environment): Promise<Response> {
   try {
-    const services = await getServiceStatus();
+    const services = await getServiceStatus(env);
     const response: StatusResponse = {
       services,
       timestamp: new Date().toISOString(),
@@ -180,19 +410,16 @@ async function handleGetStatus(): Promise<Response> {
 /**
  * GET /api/health - Run health check
  */
-async function handleGetHealth(): Promise<Response> {
+async function handleGetHealth(env: Environment): Promise<Response> {
   try {
-    const config = loadDeployConfig();
+    const config = await loadDeployConfig(env);
     const sshConfig = getSSHConfig(config);
 
     const healthy = await runHealthCheck(config, {
       remote: sshConfig
         ? {
             path: config.deployment.path,
-            ssh: {
-              target: sshConfig.target,
-              sshKey: config.deployment.ssh_key,
-            },
+            ssh: sshConfig.options,
           }
         : undefined,
     });
@@ -209,9 +436,9 @@ async function handleGetHealth(): Promise<Response> {
 /**
  * GET /api/services - Get list of active services
  */
-function handleGetServices(): Response {
+async function handleGetServices(env: Environment): Promise<Response> {
   try {
-    const config = loadDeployConfig();
+    const config = await loadDeployConfig(env);
     const services = getActiveServices(config);
     return jsonResponse({ success: true, data: { services } });
   } catch (error) {
@@ -220,67 +447,201 @@ function handleGetServices(): Response {
 }
 
 /**
- * POST /api/deploy/all - Deploy all
+ * 409 response if another deployment holds the lock for the environment
  */
-async function handleDeployAll(req: Request): Promise<Response> {
-  try {
-    const body = await parseBody<DeployRequest>(req);
+async function lockedResponse(env: Environment): Promise<Response | null> {
+  const lock = await getDeployLock(await loadDeployConfig(env));
 
-    broadcast('deploy:start', { type: 'all', timestamp: new Date().toISOString() });
-
-    // Run deploy in background (non-blocking)
-    deployAll({
-      env: body?.env || 'production',
-      skipMigrations: body?.skipMigrations,
-      skipHealthCheck: body?.skipHealthCheck,
-      skipValidations: body?.skipValidations,
-    })
-      .then(() => {
-        broadcast('deploy:complete', { success: true, type: 'all' });
-      })
-      .catch((error) => {
-        broadcast('deploy:complete', { success: false, type: 'all', error: String(error) });
-      });
+  if (!lock) {
+    return null;
+  }
 
-    const response: DeployResponse = {
-      deploymentId: 0, // Will be set by deploy function
-      status: 'started',
-      message: 'Full deployment started',
-    };
+  return jsonResponse(
+    {
+      success: false,
+      error: `Deployment locked by ${lock.user}@${lock.host} since ${lock.acquiredAt}`,
+      data: lock,
+    },
+    409
+  );
+}
 
-    return jsonResponse({ success: true, data: response });
-  } catch (error) {
-    return errorResponse(`Failed to start deployment: ${error}`);
+/**
+ * Deployment requested from the dashboard
+ */
+interface DashboardDeploy {
+  env: Environment;
+  type: DeploymentType;
+  service?: string;
+}
+
+/**
+ * Human-readable name of a dashboard deployment
+ */
+function getDeployLabel(deploy: DashboardDeploy): string {
+  switch (deploy.type) {
+    case 'full':
+      return 'Full deployment';
+    case 'backend':
+      return 'Backend deployment';
+    case 'frontend':
+      return 'Frontend deployment';
+    case 'service':
+      return `Service '${deploy.service}' deployment`;
+  }
+}
+
+/**
+ * Run the deploy function matching a dashboard deployment
+ */
+function runDashboardDeploy(deploy: DashboardDeploy, options: DeployOptions): Promise<void> {
+  switch (deploy.type) {
+    case 'full':
+      return deployAll(options);
+    case 'backend':
+      return deployBackend(options);
+    case 'frontend':
+      return deployFrontend(options);
+    case 'service':
+      return deployService(deploy.service || '', options);
+  }
+}
+
+/**
+ * Deploy options accepted from a request body (stored with approval requests)
+ */
+type RequestDeployOptions = Pick<DeployOptions, 'skipMigrations' | 'skipHealthCheck' | 'skipValidations'>;
+
+/**
+ * Deploy options of a request body
+ */
+function getRequestOptions(body: DeployRequest | null): RequestDeployOptions {
+  return {
+    skipMigrations: body?.skipMigrations,
+    skipHealthCheck: body?.skipHealthCheck,
+    skipValidations: body?.skipValidations,
+  };
+}
+
+/**
+ * Whether dashboard deploys to an environment need another user's approval
+ * Only with configured users: in token mode there is a single identity
+ */
+async function requiresApproval(env: Environment): Promise<boolean> {
+  if (getAuthMode() !== 'users') {
+    return false;
   }
+
+  const approvals = (await loadDeployConfig(env)).dashboard?.approvals ?? ['production'];
+  return approvals.includes(env);
 }
 
 /**
- * POST /api/deploy/backend - Deploy backend
+ * Create the history record up front, run the deploy in background and
+ * return its id so the client can follow it
  */
-async function handleDeployBackend(req: Request): Promise<Response> {
+async function startDashboardDeploy(
+  deploy: DashboardDeploy,
+  options: RequestDeployOptions,
+  confirmedBy: string
+): Promise<number> {
+  const deploymentId = saveDeployment({
+    environment: deploy.env,
+    type: deploy.type,
+    service: deploy.service ? normalizeServiceName(deploy.service) : undefined,
+    commitHash: await getCurrentCommitHash(),
+    status: 'pending',
+  });
+  const startTime = Date.now();
+
+  broadcast('deploy:start', {
+    deploymentId,
+    type: deploy.type,
+    service: deploy.service,
+    timestamp: new Date().toISOString(),
+  });
+
+  const complete = (error?: unknown) => {
+    // The deploy returned before taking over the record (cancelled, validations...)
+    if (getDeploymentById(deploymentId)?.status === 'pending') {
+      updateDeploymentStatus(
+        deploymentId,
+        error instanceof DeploymentCancelledError ? 'cancelled' : 'failed',
+        Math.floor((Date.now() - startTime) / 1000),
+        error ? String(error) : 'Deployment did not start'
+      );
+    }
+
+    const completeData: DeployCompleteData = {
+      success: !error,
+      deploymentId,
+      duration: Date.now() - startTime,
+      error: error ? String(error) : undefined,
+      cancelled: getDeploymentById(deploymentId)?.status === 'cancelled' || undefined,
+      type: deploy.type,
+      service: deploy.service,
+    };
+    broadcast('deploy:complete', completeData);
+  };
+
+  // Run deploy in background (non-blocking)
+  runDashboardDeploy(deploy, { ...options, env: deploy.env, deploymentId, confirmedBy })
+    .then(() => complete())
+    .catch((error) => complete(error));
+
+  return deploymentId;
+}
+
+/**
+ * POST /api/deploy/all | /api/deploy/backend | /api/deploy/service/:name
+ * Starts the deploy, or creates an approval request for protected environments
+ */
+async function handleDeploy(
+  target: Omit<DashboardDeploy, 'env'>,
+  req: Request,
+  session: DashboardSession
+): Promise<Response> {
   try {
     const body = await parseBody<DeployRequest>(req);
 
-    broadcast('deploy:start', { type: 'backend', timestamp: new Date().toISOString() });
-
-    // Run deploy in background (non-blocking)
-    deployBackend({
-      env: body?.env || 'production',
-      skipMigrations: body?.skipMigrations,
-      skipHealthCheck: body?.skipHealthCheck,
-      skipValidations: body?.skipValidations,
-    })
-      .then(() => {
-        broadcast('deploy:complete', { success: true, type: 'backend' });
-      })
-      .catch((error) => {
-        broadcast('deploy:complete', { success: false, type: 'backend', error: String(error) });
+    const invalidEnv = invalidEnvironmentResponse(body?.env);
+    if (invalidEnv) {
+      return invalidEnv;
+    }
+
+    const deploy: DashboardDeploy = { ...target, env: body?.env || 'production' };
+
+    if (await requiresApproval(deploy.env)) {
+      const approvalId = saveApprovalRequest({
+        environment: deploy.env,
+        type: deploy.type,
+        service: deploy.service,
+        options: getRequestOptions(body),
+        requestedBy: session.user,
       });
 
+      broadcast('approval:update', getApprovalRequest(approvalId));
+
+      const response: DeployResponse = {
+        approvalId,
+        status: 'pending_approval',
+        message: `${getDeployLabel(deploy)} to ${deploy.env} waiting for approval`,
+      };
+
+      return jsonResponse({ success: true, data: response }, 202);
+    }
+
+    const locked = await lockedResponse(deploy.env);
+    if (locked) {
+      return locked;
+    }
+
+    const deploymentId = await startDashboardDeploy(deploy, getRequestOptions(body), session.user);
+
     const response: DeployResponse = {
-      deploymentId: 0,
+      deploymentId,
       status: 'started',
-      message: 'Backend deployment started',
+      message: `${getDeployLabel(deploy)} started`,
     };
 
     return jsonResponse({ success: true, data: response });
@@ -290,45 +651,77 @@ async function handleDeployBackend(req: Request): Promise<Response> {
 }
 
 /**
- * POST /api/deploy/service/:name - Deploy specific service
+ * GET /api/approvals - List approval requests
  */
-async function handleDeployService(serviceName: string, req: Request): Promise<Response> {
+function handleGetApprovals(status?: ApprovalStatus): Response {
   try {
-    const body = await parseBody<DeployRequest>(req);
+    const approvals = getApprovalRequests(status);
+    const response: ApprovalsResponse = { approvals };
+    return jsonResponse({ success: true, data: response });
+  } catch (error) {
+    return errorResponse(`Failed to get approvals: ${error}`);
+  }
+}
 
-    broadcast('deploy:start', {
-      type: 'service',
-      service: serviceName,
-      timestamp: new Date().toISOString(),
-    });
+/**
+ * POST /api/approvals/:id/approve | reject
+ * A different user than the requester approves, then the deploy starts
+ */
+async function handleReviewApproval(id: number, approve: boolean, session: DashboardSession): Promise<Response> {
+  try {
+    const approval = getApprovalRequest(id);
+    if (!approval) {
+      return errorResponse(`Approval request #${id} not found`, 404);
+    }
 
-    // Run deploy in background (non-blocking)
-    deployService(serviceName, {
-      env: body?.env || 'production',
-      skipHealthCheck: body?.skipHealthCheck,
-      skipValidations: body?.skipValidations,
-    })
-      .then(() => {
-        broadcast('deploy:complete', { success: true, type: 'service', service: serviceName });
-      })
-      .catch((error) => {
-        broadcast('deploy:complete', {
-          success: false,
-          type: 'service',
-          service: serviceName,
-          error: String(error),
-        });
-      });
+    if (approval.status !== 'pending') {
+      return errorResponse(`Approval request #${id} is already ${approval.status}`, 409);
+    }
+
+    if (!approve) {
+      reviewApprovalRequest(id, 'rejected', session.user);
+
+      const rejected = getApprovalRequest(id);
+      broadcast('approval:update', rejected);
+      return jsonResponse({ success: true, data: rejected });
+    }
+
+    if (approval.requested_by === session.user) {
+      return errorResponse('A deployment must be approved by a different user', 403);
+    }
+
+    const deploy: DashboardDeploy = {
+      env: approval.environment,
+      type: approval.type,
+      service: approval.service || undefined,
+    };
+
+    // The request stays pending while the target is locked
+    const locked = await lockedResponse(deploy.env);
+    if (locked) {
+      return locked;
+    }
+
+    if (!reviewApprovalRequest(id, 'approved', session.user)) {
+      return errorResponse(`Approval request #${id} was already reviewed`, 409);
+    }
+
+    const options: RequestDeployOptions = approval.options ? JSON.parse(approval.options) : {};
+    const deploymentId = await startDashboardDeploy(deploy, options, session.user);
+
+    setApprovalDeploymentId(id, deploymentId);
+    broadcast('approval:update', getApprovalRequest(id));
 
     const response: DeployResponse = {
-      deploymentId: 0,
+      deploymentId,
+      approvalId: id,
       status: 'started',
-      message: `Service '${serviceName}' deployment started`,
+      message: `${getDeployLabel(deploy)} approved by ${session.user} and started`,
     };
 
     return jsonResponse({ success: true, data: response });
   } catch (error) {
-    return errorResponse(`Failed to start deployment: ${error}`);
+    return errorResponse(`Failed to review approval: ${error}`);
   }
 }
 
@@ -348,6 +741,93 @@ function handleGetHistory(limit: number, env?: Environment): Response {
   }
 }
 
+/**
+ * GET /api/history/:id - Get a deployment with its steps and output
+ */
+function handleGetDeployment(id: number): Response {
+  try {
+    if (Number.isNaN(id)) {
+      return errorResponse('Invalid deployment id', 400);
+    }
+
+    const deployment = getDeploymentById(id);
+    if (!deployment) {
+      return errorResponse(`Deployment #${id} not found`, 404);
+    }
+
+    const response: DeploymentDetailsResponse = {
+      deployment,
+      steps: getDeploymentSteps(id),
+    };
+    return jsonResponse({ success: true, data: response });
+  } catch (error) {
+    return errorResponse(`Failed to get deployment: ${error}`);
+  }
+}
+
+/**
+ * GET /api/deployments/:id - Live status of a deployment: current step, finished steps and logs
+ */
+function handleGetDeploymentStatus(id: number): Response {
+  try {
+    if (Number.isNaN(id)) {
+      return errorResponse('Invalid deployment id', 400);
+    }
+
+    const deployment = getDeploymentById(id);
+    if (!deployment) {
+      return errorResponse(`Deployment #${id} not found`, 404);
+    }
+
+    const progress = getRunProgress(id);
+
+    const response: DeploymentStatusResponse = {
+      deployment,
+      running: progress !== null,
+      currentStep: progress?.step
+        ? {
+            name: progress.step,
+            index: progress.stepIndex || 0,
+            total: progress.total,
+            startedAt: progress.stepStartedAt,
+            output: progress.output,
+          }
+        : undefined,
+      steps: getDeploymentSteps(id),
+      logs: deployment.logs,
+    };
+    return jsonResponse({ success: true, data: response });
+  } catch (error) {
+    return errorResponse(`Failed to get deployment: ${error}`);
+  }
+}
+
+/**
+ * POST /api/deployments/:id/cancel - Cancel a deployment running in this dashboard
+ * The deployment stops at the next step (or its current command is killed) and
+ * is recorded as cancelled once its cleanup finishes
+ */
+function handleCancelDeployment(id: number): Response {
+  try {
+    if (Number.isNaN(id)) {
+      return errorResponse('Invalid deployment id', 400);
+    }
+
+    const deployment = getDeploymentById(id);
+    if (!deployment) {
+      return errorResponse(`Deployment #${id} not found`, 404);
+    }
+
+    if (cancelDeployRuns(id) === 0) {
+      return errorResponse(`Deployment #${id} is not running in this dashboard`, 409);
+    }
+
+    return jsonResponse({ success: true, data: { deploymentId: id, status: 'cancelling' } });
+  } catch (error) {
+    return errorResponse(`Failed to cancel deployment: ${error}`);
+  }
+}
+
 /**
  * GET /api/stats - Get deployment statistics
  */
@@ -364,9 +844,9 @@ function handleGetStats(env?: Environment): Response {
 /**
  * GET /api/version - Get deployed version from VPS
  */
-async function handleGetVersion(): Promise<Response> {
+async function handleGetVersion(env: Environment): Promise<Response> {
   try {
-    const config = loadDeployConfig();
+    const config = await loadDeployConfig(env);
     const sshConfig = getSSHConfig(config);
 
     if (!sshConfig || config.deployment.type !== 'remote') {
@@ -376,10 +856,7 @@ async function handleGetVersion(): Promise<Response> {
       });
     }
 
-    const version = await getDeployedVersion(config.deployment.path, {
-      target: sshConfig.target,
-      sshKey: config.deployment.ssh_key,
-    });
+    const version = await getDeployedVersion(config.deployment.path, sshConfig.options);
 
     return jsonResponse({ success: true, data: { version } });
   } catch (error) {
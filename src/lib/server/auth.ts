@@ -0,0 +1,236 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { DashboardConfig, DashboardRole, DashboardUser } from '../config';
+
+/**
+ * How clients authenticate against the dashboard
+ * - token: a single access token generated at startup (or DEPLOKIT_DASHBOARD_TOKEN)
+ * - users: configured users log in with their password and get a session token
+ */
+export type DashboardAuthMode = 'token' | 'users';
+
+/**
+ * Authenticated dashboard session
+ */
+export interface DashboardSession {
+  user: string;
+  role: DashboardRole;
+  expiresAt: number;
+}
+
+/**
+ * Role hierarchy: each role can do everything the previous ones can
+ */
+const ROLE_LEVELS: Record<DashboardRole, number> = {
+  viewer: 0,
+  deployer: 1,
+  admin: 2,
+};
+
+/**
+ * Session lifetime (ms)
+ */
+const SESSION_TTL = 12 * 60 * 60 * 1000;
+
+/**
+ * Current auth mode
+ */
+let authMode: DashboardAuthMode = 'token';
+
+/**
+ * Access token (token mode)
+ */
+let accessToken = '';
+
+/**
+ * Configured users (users mode)
+ */
+let dashboardUsers: DashboardUser[] = [];
+
+/**
+ * Origins other than the dashboard itself allowed to call the API
+ */
+let allowedOrigins: string[] = [];
+
+/**
+ * Active sessions by token (users mode)
+ */
+const sessions = new Map<string, DashboardSession>();
+
+/**
+ * Generate a random token
+ */
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Configure dashboard auth. Returns the access token in token mode
+ */
+export function initDashboardAuth(config: DashboardConfig = {}): { mode: DashboardAuthMode; token?: string } {
+  dashboardUsers = config.users || [];
+  allowedOrigins = config.allowedOrigins || [];
+  sessions.clear();
+
+  if (dashboardUsers.length > 0) {
+    authMode = 'users';
+    accessToken = '';
+    return { mode: authMode };
+  }
+
+  authMode = 'token';
+  accessToken = process.env.DEPLOKIT_DASHBOARD_TOKEN || generateToken();
+  return { mode: authMode, token: accessToken };
+}
+
+/**
+ * Current auth mode
+ */
+export function getAuthMode(): DashboardAuthMode {
+  return authMode;
+}
+
+/**
+ * Hash a dashboard user password (for dashboard.users[].passwordHash)
+ */
+export function hashDashboardPassword(password: string): Promise<string> {
+  return Bun.password.hash(password);
+}
+
+/**
+ * Token sent by the client: Authorization header, or ?token= where headers
+ * can't be set (WebSocket)
+ */
+function getRequestToken(req: Request, allowQuery: boolean): string | null {
+  const header = req.headers.get('authorization');
+
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+
+  return allowQuery ? new URL(req.url).searchParams.get('token') : null;
+}
+
+/**
+ * Session of an authenticated request (null if not authenticated)
+ */
+export function authenticateRequest(
+  req: Request,
+  options: { allowQuery?: boolean } = {}
+): DashboardSession | null {
+  const token = getRequestToken(req, options.allowQuery ?? false);
+
+  if (!token) {
+    return null;
+  }
+
+  if (authMode === 'token') {
+    // Whoever holds the startup token started the dashboard: full access
+    return safeEqual(token, accessToken) ? { user: 'token', role: 'admin', expiresAt: Infinity } : null;
+  }
+
+  const session = sessions.get(token);
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.expiresAt < Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Log a configured user in. Returns the session token, or null if the
+ * credentials are wrong
+ */
+export async function login(name: string, password: string): Promise<string | null> {
+  if (authMode !== 'users') {
+    return null;
+  }
+
+  const user = dashboardUsers.find(u => u.name === name);
+
+  if (!user || !(await Bun.password.verify(password, user.passwordHash))) {
+    return null;
+  }
+
+  const token = generateToken();
+  sessions.set(token, {
+    user: user.name,
+    role: user.role || 'viewer',
+    expiresAt: Date.now() + SESSION_TTL,
+  });
+
+  return token;
+}
+
+/**
+ * Whether a session has at least the given role
+ */
+export function hasRole(session: DashboardSession, role: DashboardRole): boolean {
+  return ROLE_LEVELS[session.role] >= ROLE_LEVELS[role];
+}
+
+/**
+ * End the session of a request
+ */
+export function logout(req: Request): void {
+  const token = getRequestToken(req, false);
+
+  if (token) {
+    sessions.delete(token);
+  }
+}
+
+/**
+ * Whether a request comes from the dashboard itself, an allowed origin or a
+ * non-browser client (no Origin header). Blocks other sites from driving the API
+ */
+export function isOriginAllowed(req: Request): boolean {
+  const origin = req.headers.get('origin');
+
+  if (!origin) {
+    return true;
+  }
+
+  if (allowedOrigins.includes(origin)) {
+    return true;
+  }
+
+  try {
+    return new URL(origin).host === (req.headers.get('host') || new URL(req.url).host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * CORS headers for allowed external origins (none for same-origin requests)
+ */
+export function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('origin');
+
+  if (!origin || !allowedOrigins.includes(origin)) {
+    return {};
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    Vary: 'Origin',
+  };
+}
@@ -1,15 +1,20 @@
 import { join } from 'path';
 import { existsSync } from 'fs';
+import { hostname } from 'os';
 import type { DashboardOptions } from './types';
 import { handleApiRequest } from './api';
+import { authenticateRequest, initDashboardAuth, isOriginAllowed } from './auth';
 import {
   addClient,
   removeClient,
   startStatusPolling,
   stopStatusPolling,
+  startDeployEventForwarding,
+  stopDeployEventForwarding,
   getClientCount,
 } from './websocket';
-import { printSuccess, printInfo, printError, colors } from '../utils';
+import { printSuccess, printInfo, printError, printWarning, colors } from '../utils';
+import { loadDeployConfig, findConfigFile, type DashboardConfig, type Environment } from '../config';
 
 /**
  * Serve static files from dashboard directory
@@ -109,11 +114,60 @@ function findDashboardPath(): string | null {
   return null;
 }
 
+/**
+ * Dashboard section of the deploy config (empty if there is no config yet)
+ */
+async function loadDashboardConfig(env?: Environment): Promise<DashboardConfig> {
+  if (!findConfigFile()) {
+    return {};
+  }
+
+  try {
+    return (await loadDeployConfig(env)).dashboard || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * TLS certificate and key from options or config (undefined for plain HTTP)
+ */
+function resolveTLS(options: DashboardOptions, config: DashboardConfig): { cert: string; key: string } | undefined {
+  const cert = options.tlsCert || config.tls?.cert;
+  const key = options.tlsKey || config.tls?.key;
+
+  if (!cert && !key) {
+    return undefined;
+  }
+
+  if (!cert || !key) {
+    throw new Error('TLS needs both a certificate and a key (--tls-cert and --tls-key)');
+  }
+
+  for (const file of [cert, key]) {
+    if (!existsSync(file)) {
+      throw new Error(`TLS file not found: ${file}`);
+    }
+  }
+
+  return { cert, key };
+}
+
+/**
+ * Whether the server only listens on the loopback interface
+ */
+function isLoopback(host: string): boolean {
+  return host === '127.0.0.1' || host === 'localhost' || host === '::1';
+}
+
 /**
  * Start the dashboard server
  */
 export async function startDashboard(options: DashboardOptions = {}): Promise<void> {
-  const port = options.port || 4200;
+  const dashboardConfig = await loadDashboardConfig(options.env);
+  const port = options.port || dashboardConfig.port || 4200;
+  const host = options.host || dashboardConfig.host || '127.0.0.1';
+  const tls = resolveTLS(options, dashboardConfig);
 
   // Find dashboard static files
   const dashboardPath = findDashboardPath();
@@ -126,15 +180,22 @@ export async function startDashboard(options: DashboardOptions = {}): Promise<vo
 
   printInfo(`Dashboard path: ${dashboardPath}`);
 
+  const auth = initDashboardAuth(dashboardConfig);
+
   const server = Bun.serve({
-    hostname: '127.0.0.1', // Localhost only for security
+    hostname: host,
     port,
+    tls: tls ? { cert: Bun.file(tls.cert), key: Bun.file(tls.key) } : undefined,
 
     fetch(req, server) {
       const url = new URL(req.url);
 
-      // WebSocket upgrade
+      // WebSocket upgrade (browsers can't set headers here, the token goes in ?token=)
       if (url.pathname === '/ws') {
+        if (!isOriginAllowed(req) || !authenticateRequest(req, { allowQuery: true })) {
+          return new Response('Unauthorized', { status: 401 });
+        }
+
         const upgraded = server.upgrade(req);
         if (upgraded) {
           return undefined;
@@ -168,19 +229,43 @@ export async function startDashboard(options: DashboardOptions = {}): Promise<vo
   });
 
   // Start status polling
-  startStatusPolling();
+  startStatusPolling(options.env);
+
+  // Stream progress and output of dashboard-triggered deploys
+  startDeployEventForwarding();
+
+  const protocol = tls ? 'https' : 'http';
+  const localUrl = `${protocol}://localhost:${port}`;
+  // In token mode the printed URL carries the token, the dashboard keeps it and removes it from the URL
+  const tokenQuery = auth.token ? `/?token=${auth.token}` : '';
 
   console.log('');
   printSuccess(`Dashboard server started!`);
   console.log('');
-  console.log(`  ${colors.highlight('Local:')}   http://localhost:${port}`);
+  console.log(`  ${colors.highlight('Local:')}   ${localUrl}${tokenQuery}`);
+  if (!isLoopback(host)) {
+    const networkHost = host === '0.0.0.0' || host === '::' ? hostname() : host;
+    console.log(`  ${colors.highlight('Network:')} ${protocol}://${networkHost}:${port}${tokenQuery}`);
+  }
   console.log('');
+
+  if (auth.mode === 'users') {
+    printInfo(`Login required (${dashboardConfig.users?.length} configured user(s))`);
+  } else {
+    printInfo(`Access token: ${auth.token}`);
+  }
+
+  if (!isLoopback(host) && !tls) {
+    printWarning('Dashboard reachable from the network without TLS: tokens and passwords travel in clear text');
+    printInfo('Use --tls-cert and --tls-key (or dashboard.tls in the config)');
+  }
+
   printInfo('Press Ctrl+C to stop');
   console.log('');
 
   // Auto-open browser
   if (options.open !== false) {
-    await openBrowser(`http://localhost:${port}`);
+    await openBrowser(`${localUrl}${tokenQuery}`);
   }
 
   // Handle shutdown
@@ -188,12 +273,14 @@ export async function startDashboard(options: DashboardOptions = {}): Promise<vo
     console.log('');
     printInfo('Shutting down dashboard server...');
     stopStatusPolling();
+    stopDeployEventForwarding();
     server.stop();
     process.exit(0);
   });
 
   process.on('SIGTERM', () => {
     stopStatusPolling();
+    stopDeployEventForwarding();
     server.stop();
     process.exit(0);
   });
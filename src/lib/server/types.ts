@@ -1,13 +1,26 @@
-import type { Environment } from '../config';
-import type { DeploymentRecord, DeploymentType } from '../history';
+import type { DashboardRole, Environment } from '../config';
+import type {
+  DeploymentApprovalRecord,
+  DeploymentRecord,
+  DeploymentStepRecord,
+  DeploymentType,
+} from '../history';
 import type { DeployedVersionInfo } from '../version';
+import type { ConfigValidationIssue } from '../config-schema';
+import type { DashboardAuthMode } from './auth';
 
 /**
  * Dashboard server options
  */
 export interface DashboardOptions {
   port?: number;
+  /** Interface to bind (default 127.0.0.1, or dashboard.host) */
+  host?: string;
+  env?: Environment;
   open?: boolean;
+  /** TLS certificate and key (PEM files), override dashboard.tls */
+  tlsCert?: string;
+  tlsKey?: string;
 }
 
 /**
@@ -19,6 +32,23 @@ export interface ApiResponse<T = unknown> {
   error?: string;
 }
 
+/**
+ * Auth session response (GET /api/auth/session)
+ */
+export interface AuthSessionResponse {
+  mode: DashboardAuthMode;
+  authenticated: boolean;
+  user?: string;
+  role?: DashboardRole;
+}
+
+/**
+ * Rejected config update (PUT /api/config, 400)
+ */
+export interface ConfigValidationResponse {
+  issues: ConfigValidationIssue[];
+}
+
 /**
  * Service status from health check
  */
@@ -52,11 +82,20 @@ export interface DeployRequest {
  * Deploy response
  */
 export interface DeployResponse {
-  deploymentId: number;
-  status: 'started' | 'completed' | 'failed';
+  /** Missing while the deploy waits for approval */
+  deploymentId?: number;
+  approvalId?: number;
+  status: 'started' | 'completed' | 'failed' | 'pending_approval';
   message?: string;
 }
 
+/**
+ * Approval requests response (GET /api/approvals)
+ */
+export interface ApprovalsResponse {
+  approvals: DeploymentApprovalRecord[];
+}
+
 /**
  * History response
  */
@@ -65,6 +104,32 @@ export interface HistoryResponse {
   total: number;
 }
 
+/**
+ * Deployment detail response (GET /api/history/:id)
+ */
+export interface DeploymentDetailsResponse {
+  deployment: DeploymentRecord;
+  steps: DeploymentStepRecord[];
+}
+
+/**
+ * Live deployment status response (GET /api/deployments/:id)
+ */
+export interface DeploymentStatusResponse {
+  deployment: DeploymentRecord;
+  /** True while the deployment runs in this dashboard process */
+  running: boolean;
+  currentStep?: {
+    name: string;
+    index: number;
+    total: number;
+    startedAt?: string;
+    output: string;
+  };
+  steps: DeploymentStepRecord[];
+  logs?: string;
+}
+
 /**
  * Stats response
  */
@@ -83,7 +148,8 @@ export type WebSocketEventType =
   | 'deploy:start'
   | 'deploy:progress'
   | 'deploy:output'
-  | 'deploy:complete';
+  | 'deploy:complete'
+  | 'approval:update';
 
 /**
  * WebSocket message
@@ -101,6 +167,10 @@ export interface DeployProgressData {
   step: string;
   current: number;
   total: number;
+  deploymentId?: number;
+  deploymentType: DeploymentType;
+  environment: Environment;
+  service?: string;
 }
 
 /**
@@ -109,6 +179,7 @@ export interface DeployProgressData {
 export interface DeployOutputData {
   line: string;
   type: 'stdout' | 'stderr' | 'info';
+  deploymentId?: number;
 }
 
 /**
@@ -119,4 +190,7 @@ export interface DeployCompleteData {
   deploymentId: number;
   duration: number;
   error?: string;
+  cancelled?: boolean;
+  type: DeploymentType;
+  service?: string;
 }
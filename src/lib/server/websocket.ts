@@ -1,7 +1,15 @@
 import type { ServerWebSocket } from 'bun';
-import type { WebSocketEventType, WebSocketMessage, ServiceStatus } from './types';
-import { loadDeployConfig, getSSHConfig, getActiveServices } from '../config';
+import type {
+  WebSocketEventType,
+  WebSocketMessage,
+  ServiceStatus,
+  DeployProgressData,
+  DeployOutputData,
+} from './types';
+import { loadDeployConfig, getSSHConfig, getActiveServices, type Environment } from '../config';
 import { executeRemoteCommand } from '../ssh';
+import { getRemoteComposeCommand } from '../docker';
+import { deployEvents, type DeployEvent } from '../events';
 
 /**
  * Connected WebSocket clients
@@ -18,6 +26,11 @@ const STATUS_POLL_INTERVAL = 5000;
  */
 let statusPollingTimer: ReturnType<typeof setInterval> | null = null;
 
+/**
+ * Environment used for status polling
+ */
+let statusEnvironment: Environment = 'production';
+
 /**
  * Add a client to the set
  */
@@ -85,23 +98,20 @@ export function sendToClient(
 /**
  * Query service status from VPS
  */
-async function queryServiceStatus(): Promise<ServiceStatus[]> {
+async function queryServiceStatus(env: Environment = statusEnvironment): Promise<ServiceStatus[]> {
   try {
-    const config = loadDeployConfig();
+    const config = await loadDeployConfig(env);
     const sshConfig = getSSHConfig(config);
 
     if (!sshConfig || config.deployment.type !== 'remote') {
       return [];
     }
 
-    const sshOptions = {
-      target: sshConfig.target,
-      sshKey: config.deployment.ssh_key,
-    };
+    const sshOptions = sshConfig.options;
 
     // Get container status via docker compose
     const result = await executeRemoteCommand(
-      `cd ${config.deployment.path}/packages/backend && docker compose ps --format json 2>/dev/null || echo '[]'`,
+      `${getRemoteComposeCommand(config.deployment.path, ['ps', '--format', 'json'], config)} 2>/dev/null || echo '[]'`,
       sshOptions
     );
 
@@ -177,7 +187,11 @@ async function queryServiceStatus(): Promise<ServiceStatus[]> {
 /**
  * Start status polling (broadcasts to all clients)
  */
-export function startStatusPolling(): void {
+export function startStatusPolling(env?: Environment): void {
+  if (env) {
+    statusEnvironment = env;
+  }
+
   if (statusPollingTimer) {
     return;
   }
@@ -208,6 +222,46 @@ export function stopStatusPolling(): void {
 /**
  * Get current service status (one-time query)
  */
-export async function getServiceStatus(): Promise<ServiceStatus[]> {
-  return queryServiceStatus();
+export async function getServiceStatus(env?: Environment): Promise<ServiceStatus[]> {
+  return queryServiceStatus(env);
+}
+
+/**
+ * Forward progress and output of deploys running in this process to all clients
+ */
+function forwardDeployEvent(event: DeployEvent): void {
+  if (event.type === 'deploy:progress') {
+    const data: DeployProgressData = {
+      step: event.step || '',
+      current: event.stepIndex || 0,
+      total: event.total || 0,
+      deploymentId: event.deploymentId,
+      deploymentType: event.deploymentType,
+      environment: event.environment,
+      service: event.service,
+    };
+    broadcast('deploy:progress', data);
+  } else if (event.type === 'deploy:output') {
+    const data: DeployOutputData = {
+      line: event.line || '',
+      type: event.stream || 'info',
+      deploymentId: event.deploymentId,
+    };
+    broadcast('deploy:output', data);
+  }
+}
+
+/**
+ * Start forwarding deploy events to WebSocket clients
+ */
+export function startDeployEventForwarding(): void {
+  deployEvents.off('event', forwardDeployEvent);
+  deployEvents.on('event', forwardDeployEvent);
+}
+
+/**
+ * Stop forwarding deploy events
+ */
+export function stopDeployEventForwarding(): void {
+  deployEvents.off('event', forwardDeployEvent);
 }
@@ -1,15 +1,23 @@
 import { execa } from 'execa';
 import ora from 'ora';
+import { existsSync, mkdtempSync, rmSync, statSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { join, posix } from 'path';
 import { printError, printSuccess, printInfo, printWarning, colors } from './utils';
-import type { DeployConfig } from './config';
+import { recordCommandOutput, trackRunProcess } from './events';
+import {
+  DEFAULT_SYNC_EXCLUDE,
+  getSSHConnectionArgs,
+  type DeployConfig,
+  type SSHConnectionOptions,
+  type SyncEntry,
+} from './config';
 
 /**
- * Opciones para comandos SSH
+ * Opciones para comandos SSH (ver getSSHConfig(config).options)
  */
-export interface SSHOptions {
-  target: string;
+export interface SSHOptions extends SSHConnectionOptions {
   sshCmd?: string;
-  sshKey?: string;
 }
 
 /**
@@ -19,8 +27,22 @@ export interface RsyncOptions extends SSHOptions {
   source: string;
   destination: string;
   exclude?: string[];
+  /** Si se indica, solo se sincronizan los archivos que coinciden */
+  include?: string[];
+  /** Archivo local con patrones a excluir (--exclude-from) */
+  excludeFrom?: string;
+  /** Nombre de los archivos de exclusiones por directorio, como .gitignore (--filter ':- name') */
+  ignoreFile?: string;
   delete?: boolean;
   verbose?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Opciones comunes de sincronización de carpetas
+ */
+export interface SyncOptions {
+  dryRun?: boolean;
 }
 
 /**
@@ -30,22 +52,204 @@ export interface WorkspaceFilter {
   include: string[];
 }
 
+/**
+ * Valor interpolable en remoteCommand: los arrays dan un argumento por elemento
+ */
+export type RemoteCommandValue = string | number | Array<string | number>;
+
+/**
+ * Escapa un valor para la shell (comillas simples)
+ * Los valores con solo caracteres seguros se dejan igual, y un ~/ inicial queda
+ * fuera de las comillas para que la shell lo siga expandiendo
+ */
+export function shellQuote(value: string | number): string {
+  const text = String(value);
+
+  if (/^[\w@%+=:,./-]+$/.test(text)) {
+    return text;
+  }
+
+  const home = text.match(/^~(\/|$)/)?.[0];
+
+  if (home) {
+    const rest = text.substring(home.length);
+    return rest ? `${home}${shellQuote(rest)}` : home;
+  }
+
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Construye un comando para la shell del servidor escapando cada valor interpolado
+ * ej: remoteCommand`cd ${path} && docker compose up -d ${services}`
+ */
+export function remoteCommand(strings: TemplateStringsArray, ...values: RemoteCommandValue[]): string {
+  return strings.reduce((command, text, index) => {
+    if (index === 0) {
+      return text;
+    }
+
+    const value = values[index - 1];
+    const quoted = Array.isArray(value) ? value.map(shellQuote).join(' ') : shellQuote(value);
+
+    return `${command}${quoted}${text}`;
+  }, '');
+}
+
+/**
+ * Segundos que la conexión maestra sigue abierta sin uso, por si el proceso
+ * termina sin pasar por closeSSHConnections (kill -9)
+ */
+const SSH_CONTROL_PERSIST = 60;
+
+/**
+ * Conexiones maestras (ControlMaster) abiertas por este proceso
+ */
+const sshControl: {
+  dir?: string;
+  masters: Map<string, { ready: Promise<boolean>; lastUsed: number; options: SSHOptions }>;
+} = {
+  masters: new Map(),
+};
+
+/**
+ * Multiplexación de SSH activa: todas las conexiones a un servidor reutilizan
+ * una conexión maestra en lugar de repetir el handshake
+ * Desactivar con DEPLOKIT_SSH_MULTIPLEX=0 (no disponible en Windows)
+ */
+export function isSSHMultiplexingEnabled(): boolean {
+  return process.platform !== 'win32' && process.env.DEPLOKIT_SSH_MULTIPLEX !== '0';
+}
+
+/**
+ * Socket de la conexión maestra (%C: hash de usuario, host y puerto)
+ * En /tmp y no en os.tmpdir(): la ruta de un socket no puede pasar de ~104
+ * caracteres y el TMPDIR de macOS es largo
+ */
+function getControlPath(): string {
+  if (!sshControl.dir) {
+    sshControl.dir = mkdtempSync('/tmp/deplokit-ssh-');
+    process.once('exit', closeSSHConnections);
+  }
+
+  return join(sshControl.dir, '%C');
+}
+
+/**
+ * Argumentos de ssh comunes: opciones de la conexión y conexión maestra compartida
+ */
+export function getSSHArgs(options: SSHOptions): string[] {
+  const args = getSSHConnectionArgs(options);
+
+  if (isSSHMultiplexingEnabled()) {
+    args.push('-o', `ControlPath=${getControlPath()}`, '-o', 'ControlMaster=no');
+  }
+
+  return args;
+}
+
+/**
+ * Abre la conexión maestra con el servidor (una vez por proceso y destino)
+ * Si no se puede abrir (clave con passphrase, sin agente...), cada comando
+ * se conecta por su cuenta como siempre
+ */
+export function openSSHConnection(options: SSHOptions): Promise<boolean> {
+  if (!isSSHMultiplexingEnabled()) {
+    return Promise.resolve(false);
+  }
+
+  const key = [...getSSHConnectionArgs(options), options.target].join(' ');
+  const master = sshControl.masters.get(key);
+  const now = Date.now();
+
+  if (master && now - master.lastUsed < (SSH_CONTROL_PERSIST - 10) * 1000) {
+    master.lastUsed = now;
+    return master.ready;
+  }
+
+  // Sin uso reciente la conexión maestra puede haber expirado (ControlPersist)
+  const ready = (master ? master.ready.then(alive => alive && checkSSHMaster(options)) : Promise.resolve(false))
+    .then(alive => alive || startSSHMaster(options));
+
+  sshControl.masters.set(key, { ready, lastUsed: now, options });
+  return ready;
+}
+
+/**
+ * Comprueba si la conexión maestra sigue abierta
+ */
+async function checkSSHMaster(options: SSHOptions): Promise<boolean> {
+  const { target, sshCmd = 'ssh' } = options;
+  const args = [...getSSHConnectionArgs(options), '-o', `ControlPath=${getControlPath()}`, '-O', 'check', target];
+  const result = await execa(sshCmd, args, { stdio: 'ignore', reject: false });
+
+  return result.exitCode === 0;
+}
+
+/**
+ * Lanza la conexión maestra en segundo plano
+ */
+async function startSSHMaster(options: SSHOptions): Promise<boolean> {
+  const { target, sshCmd = 'ssh' } = options;
+  const args = [
+    ...getSSHConnectionArgs(options),
+    '-o', `ControlPath=${getControlPath()}`,
+    '-o', 'ControlMaster=yes',
+    '-o', `ControlPersist=${SSH_CONTROL_PERSIST}`,
+    '-o', 'BatchMode=yes',
+    '-o', 'ConnectTimeout=10',
+    // -f: pasa a segundo plano tras autenticar, sin heredar stdout/stderr
+    '-f', '-N',
+    target,
+  ];
+
+  const result = await execa(sshCmd, args, { stdio: 'ignore', reject: false });
+
+  return result.exitCode === 0;
+}
+
+/**
+ * Cierra las conexiones maestras y borra sus sockets
+ * Se ejecuta al salir del proceso (CLI o dashboard)
+ */
+export function closeSSHConnections(): void {
+  if (!sshControl.dir) {
+    return;
+  }
+
+  const controlPath = join(sshControl.dir, '%C');
+
+  for (const { options } of sshControl.masters.values()) {
+    const args = [...getSSHConnectionArgs(options), '-o', `ControlPath=${controlPath}`, '-O', 'exit', options.target];
+
+    spawnSync(options.sshCmd || 'ssh', args, { stdio: 'ignore', timeout: 5000 });
+  }
+
+  rmSync(sshControl.dir, { recursive: true, force: true });
+  sshControl.dir = undefined;
+  sshControl.masters.clear();
+  process.off('exit', closeSSHConnections);
+}
+
 /**
  * Verifica la conexión SSH
  */
 export async function checkSSHConnection(options: SSHOptions): Promise<boolean> {
-  const { target, sshCmd = 'ssh', sshKey } = options;
+  const { target, sshCmd = 'ssh' } = options;
 
   const spinner = ora('Testing SSH connection...').start();
 
   try {
-    const args = [];
+    await openSSHConnection(options);
 
-    if (sshKey) {
-      args.push('-i', sshKey);
-    }
-
-    args.push('-o', 'ConnectTimeout=5', '-o', 'BatchMode=yes', target, 'echo', 'SSH connection successful');
+    const args = [
+      ...getSSHArgs(options),
+      '-o', 'ConnectTimeout=5',
+      '-o', 'BatchMode=yes',
+      target,
+      'echo',
+      'SSH connection successful',
+    ];
 
     const { stdout } = await execa(sshCmd, args);
 
@@ -59,7 +263,7 @@ export async function checkSSHConnection(options: SSHOptions): Promise<boolean>
   } catch (error: any) {
     spinner.fail('SSH connection failed');
     printError(error.stderr || error.message);
-    printInfo(`Try connecting manually: ${sshCmd} ${target}`);
+    printInfo(`Try connecting manually: ${[sshCmd, ...getSSHConnectionArgs(options), target].join(' ')}`);
     return false;
   }
 }
@@ -71,18 +275,15 @@ export async function executeRemoteCommand(
   command: string,
   options: SSHOptions
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-  const { target, sshCmd = 'ssh', sshKey } = options;
+  const { target, sshCmd = 'ssh' } = options;
 
   try {
-    const args = [];
+    await openSSHConnection(options);
 
-    if (sshKey) {
-      args.push('-i', sshKey);
-    }
+    const args = [...getSSHArgs(options), target, command];
 
-    args.push(target, command);
-
-    const result = await execa(sshCmd, args);
+    const result = await trackRunProcess(execa(sshCmd, args));
+    recordCommandOutput(result);
 
     return {
       stdout: result.stdout,
@@ -90,6 +291,8 @@ export async function executeRemoteCommand(
       exitCode: result.exitCode,
     };
   } catch (error: any) {
+    recordCommandOutput(error);
+
     return {
       stdout: error.stdout || '',
       stderr: error.stderr || error.message,
@@ -108,7 +311,7 @@ export async function createRemoteDirectory(
   const spinner = ora(`Creating remote directory: ${path}`).start();
 
   try {
-    const result = await executeRemoteCommand(`mkdir -p ${path}`, options);
+    const result = await executeRemoteCommand(remoteCommand`mkdir -p ${path}`, options);
 
     if (result.exitCode === 0) {
       spinner.succeed(`Remote directory created: ${path}`);
@@ -126,9 +329,22 @@ export async function createRemoteDirectory(
  * Sincroniza archivos con rsync
  */
 export async function syncFilesToRemote(options: RsyncOptions): Promise<void> {
-  const { source, destination, target, sshKey, exclude = [], delete: deleteFlag = true, verbose = false } = options;
-
-  const spinner = ora(`Syncing files to ${target}...`).start();
+  const {
+    source,
+    destination,
+    target,
+    exclude = [],
+    include = [],
+    excludeFrom,
+    ignoreFile,
+    delete: deleteFlag = true,
+    verbose = false,
+    dryRun = false,
+  } = options;
+
+  const spinner = ora(
+    dryRun ? `Comparing ${source} with ${target}:${destination} (dry-run)...` : `Syncing files to ${target}...`
+  ).start();
 
   try {
     const args = ['-az'];
@@ -137,25 +353,49 @@ export async function syncFilesToRemote(options: RsyncOptions): Promise<void> {
       args.push('--delete');
     }
 
-    if (verbose) {
+    if (dryRun) {
+      // Solo listar los cambios que se harían (sin transferir nada)
+      args.push('--dry-run', '--itemize-changes');
+    } else if (verbose) {
       args.push('-v');
     }
 
+    if (ignoreFile) {
+      args.push('--filter', `:- ${ignoreFile}`, '--exclude', ignoreFile);
+    }
+
+    if (excludeFrom) {
+      args.push('--exclude-from', excludeFrom);
+    }
+
     // Add excludes
     exclude.forEach(pattern => {
       args.push('--exclude', pattern);
     });
 
-    // SSH options
-    if (sshKey) {
-      args.push('-e', `ssh -i ${sshKey}`);
-    } else {
-      args.push('-e', 'ssh');
+    // Con includes: todos los directorios, los archivos que coinciden y nada más
+    if (include.length > 0) {
+      include.forEach(pattern => {
+        args.push('--include', pattern);
+      });
+      args.push('--include', '*/', '--exclude', '*', '--prune-empty-dirs');
     }
 
+    // SSH options (misma conexión maestra que los comandos remotos)
+    await openSSHConnection(options);
+    args.push('-e', [options.sshCmd || 'ssh', ...getSSHArgs(options)].map(shellQuote).join(' '));
+
     args.push(source, `${target}:${destination}`);
 
-    const result = await execa('rsync', args);
+    const result = await trackRunProcess(execa('rsync', args));
+    recordCommandOutput(result);
+
+    if (dryRun) {
+      const changes = result.stdout.split('\n').filter(line => line.trim());
+      spinner.succeed(`${changes.length} change(s) in ${destination}`);
+      changes.forEach(line => console.log(colors.gray(`    ${line}`)));
+      return;
+    }
 
     spinner.succeed('Files synced successfully');
 
@@ -164,19 +404,95 @@ export async function syncFilesToRemote(options: RsyncOptions): Promise<void> {
       console.log(colors.gray(result.stdout));
     }
   } catch (error: any) {
+    recordCommandOutput(error);
     spinner.fail('Failed to sync files');
     printError(error.stderr || error.message);
     throw error;
   }
 }
 
+/**
+ * Archivo de exclusiones del deploy (como .gitignore)
+ */
+export const DEPLOY_IGNORE_FILE = '.deployignore';
+
+/**
+ * Destino de una entrada sync, relativo a deployment.path
+ */
+export function getSyncDestination(entry: SyncEntry): string {
+  return posix.normalize(entry.destination || entry.source).replace(/\/+$/, '') || '.';
+}
+
+/**
+ * Directorios remotos que necesitan las entradas sync (rsync no crea los padres)
+ */
+export function getSyncDirectories(projectRoot: string, remotePath: string, entries: SyncEntry[]): string[] {
+  const directories = entries.map(entry => {
+    const source = join(projectRoot, entry.source);
+    const destination = posix.join(remotePath, getSyncDestination(entry));
+    const isFile = existsSync(source) && !statSync(source).isDirectory();
+
+    return isFile ? posix.dirname(destination) : destination;
+  });
+
+  return [...new Set([remotePath, ...directories])];
+}
+
+/**
+ * Sincroniza las entradas del manifiesto sync (ver getSyncEntries)
+ * .deployignore en la raíz del proyecto aplica a todas las entradas, y los
+ * .deployignore dentro de cada carpeta a su contenido
+ */
+export async function syncManifest(
+  projectRoot: string,
+  remotePath: string,
+  entries: SyncEntry[],
+  sshConfig: SSHOptions,
+  options: SyncOptions = {}
+): Promise<void> {
+  const rootIgnore = join(projectRoot, DEPLOY_IGNORE_FILE);
+  const excludeFrom = existsSync(rootIgnore) ? rootIgnore : undefined;
+
+  for (const entry of entries) {
+    const source = join(projectRoot, entry.source);
+
+    if (!existsSync(source)) {
+      throw new Error(`Sync source not found: ${entry.source}`);
+    }
+
+    // Carpetas con / final: se sincroniza su contenido, no la carpeta
+    const isDirectory = statSync(source).isDirectory();
+    const destination = posix.join(remotePath, getSyncDestination(entry));
+
+    printInfo(`Syncing ${entry.source} -> ${destination}...`);
+
+    await syncFilesToRemote({
+      source: isDirectory ? `${source}/` : source,
+      destination: isDirectory ? `${destination}/` : destination,
+      ...sshConfig,
+      exclude: [...DEFAULT_SYNC_EXCLUDE, ...(entry.exclude || [])],
+      include: entry.include,
+      excludeFrom,
+      ignoreFile: isDirectory ? DEPLOY_IGNORE_FILE : undefined,
+      delete: isDirectory && entry.delete !== false,
+      verbose: true,
+      dryRun: options.dryRun,
+    });
+  }
+
+  if (!options.dryRun) {
+    printSuccess(`${entries.length} sync entr${entries.length === 1 ? 'y' : 'ies'} synced`);
+  }
+}
+
 /**
  * Sincroniza carpeta backend/
  */
 export async function syncBackendFolder(
   projectRoot: string,
   remotePath: string,
-  sshConfig: { target: string; sshKey?: string }
+  sshConfig: SSHOptions,
+  options: SyncOptions = {}
 ): Promise<void> {
   const excludePatterns = [
     'node_modules/',
@@ -192,14 +508,16 @@ export async function syncBackendFolder(
   await syncFilesToRemote({
     source: `${projectRoot}/packages/backend/`,
     destination: `${remotePath}/packages/backend/`,
-    target: sshConfig.target,
-    sshKey: sshConfig.sshKey,
+    ...sshConfig,
     exclude: excludePatterns,
     delete: true,
     verbose: true,
+    dryRun: options.dryRun,
   });
 
-  printSuccess('packages/backend/ folder synced');
+  if (!options.dryRun) {
+    printSuccess('packages/backend/ folder synced');
+  }
 }
 
 /**
@@ -208,7 +526,8 @@ export async function syncBackendFolder(
 export async function syncSharedFolder(
   projectRoot: string,
   remotePath: string,
-  sshConfig: { target: string; sshKey?: string }
+  sshConfig: SSHOptions,
+  options: SyncOptions = {}
 ): Promise<void> {
   const excludePatterns = [
     'node_modules/',
@@ -221,13 +540,85 @@ export async function syncSharedFolder(
   await syncFilesToRemote({
     source: `${projectRoot}/packages/shared/`,
     destination: `${remotePath}/packages/shared/`,
-    target: sshConfig.target,
-    sshKey: sshConfig.sshKey,
+    ...sshConfig,
     exclude: excludePatterns,
     delete: true,
+    dryRun: options.dryRun,
   });
 
-  printSuccess('packages/shared/ folder synced');
+  if (!options.dryRun) {
+    printSuccess('packages/shared/ folder synced');
+  }
+}
+
+/**
+ * Sincroniza el build standalone de Next.js (.next/standalone, .next/static y public/)
+ */
+export async function syncFrontendBuild(
+  frontendPath: string,
+  remoteFrontendPath: string,
+  sshConfig: SSHOptions
+): Promise<void> {
+  printInfo('Syncing Next.js standalone build...');
+
+  await syncFilesToRemote({
+    source: `${frontendPath}/.next/standalone/`,
+    destination: `${remoteFrontendPath}/.next/standalone/`,
+    ...sshConfig,
+    delete: true,
+  });
+
+  await syncFilesToRemote({
+    source: `${frontendPath}/.next/static/`,
+    destination: `${remoteFrontendPath}/.next/static/`,
+    ...sshConfig,
+    delete: true,
+  });
+
+  if (existsSync(`${frontendPath}/public`)) {
+    await syncFilesToRemote({
+      source: `${frontendPath}/public/`,
+      destination: `${remoteFrontendPath}/public/`,
+      ...sshConfig,
+      delete: true,
+    });
+  }
+
+  printSuccess('Next.js build synced');
+}
+
+/**
+ * Sincroniza el código fuente del frontend (build dentro de Docker en el servidor)
+ */
+export async function syncFrontendFolder(
+  frontendPath: string,
+  remoteFrontendPath: string,
+  sshConfig: SSHOptions,
+  options: SyncOptions = {}
+): Promise<void> {
+  const excludePatterns = [
+    'node_modules/',
+    '.next/',
+    '.git/',
+    '.DS_Store',
+    '.env.local',
+    '.env.*.local',
+  ];
+
+  printInfo('Syncing frontend folder...');
+
+  await syncFilesToRemote({
+    source: `${frontendPath}/`,
+    destination: `${remoteFrontendPath}/`,
+    ...sshConfig,
+    exclude: excludePatterns,
+    delete: true,
+    dryRun: options.dryRun,
+  });
+
+  if (!options.dryRun) {
+    printSuccess('Frontend folder synced');
+  }
 }
 
 /**
@@ -236,8 +627,9 @@ export async function syncSharedFolder(
 export async function syncRootFiles(
   projectRoot: string,
   remotePath: string,
-  sshConfig: { target: string; sshKey?: string },
-  workspaceFilter?: WorkspaceFilter
+  sshConfig: SSHOptions,
+  workspaceFilter?: WorkspaceFilter,
+  options: SyncOptions = {}
 ): Promise<void> {
   printInfo('Syncing root lockfile and package.json...');
 
@@ -245,9 +637,9 @@ export async function syncRootFiles(
   await syncFilesToRemote({
     source: `${projectRoot}/bun.lock`,
     destination: `${remotePath}/bun.lock`,
-    target: sshConfig.target,
-    sshKey: sshConfig.sshKey,
+    ...sshConfig,
     delete: false,
+    dryRun: options.dryRun,
   });
 
   // Sync package.json (filtered or original)
@@ -258,9 +650,9 @@ export async function syncRootFiles(
       await syncFilesToRemote({
         source: tempPath,
         destination: `${remotePath}/package.json`,
-        target: sshConfig.target,
-        sshKey: sshConfig.sshKey,
+        ...sshConfig,
         delete: false,
+        dryRun: options.dryRun,
       });
     } finally {
       await cleanupDeploymentFiles(projectRoot);
@@ -269,13 +661,15 @@ export async function syncRootFiles(
     await syncFilesToRemote({
       source: `${projectRoot}/package.json`,
       destination: `${remotePath}/package.json`,
-      target: sshConfig.target,
-      sshKey: sshConfig.sshKey,
+      ...sshConfig,
       delete: false,
+      dryRun: options.dryRun,
     });
   }
 
-  printSuccess('Root files synced');
+  if (!options.dryRun) {
+    printSuccess('Root files synced');
+  }
 }
 
 /**
@@ -376,7 +770,7 @@ export async function installRemoteDependencies(
   printInfo('Installing workspace dependencies from monorepo root...');
 
   const installResult = await executeRemoteCommand(
-    wrapWithBunPath(`cd ${remotePath} && bun install --no-save`),
+    wrapWithBunPath(remoteCommand`cd ${remotePath} && bun install --no-save`),
     sshOptions
   );
 
@@ -2,6 +2,7 @@ import chalk from 'chalk';
 import ora, { Ora } from 'ora';
 import { execa, type Options as ExecaOptions } from 'execa';
 import { formatDuration, intervalToDuration } from 'date-fns';
+import { recordCommandOutput, emitDeployOutput, trackRunProcess } from './events';
 
 /**
  * Colores para mensajes de consola
@@ -17,11 +18,64 @@ export const colors = {
   bold: chalk.bold,
 };
 
+/**
+ * Opciones globales de ejecucion (flags --yes / --json del CLI)
+ */
+export interface RuntimeOptions {
+  nonInteractive: boolean;
+  /** --yes / --non-interactive explícito (CI por sí solo no confirma producción) */
+  assumeYes: boolean;
+  json: boolean;
+}
+
+/**
+ * Detecta si se ejecuta en CI (CI=true, CI=1...)
+ */
+export function isCI(): boolean {
+  const ci = process.env.CI;
+  return !!ci && ci !== 'false' && ci !== '0';
+}
+
+const runtimeOptions: RuntimeOptions = {
+  nonInteractive: isCI(),
+  assumeYes: false,
+  json: false,
+};
+
+/**
+ * Actualiza las opciones globales de ejecucion
+ */
+export function setRuntimeOptions(options: Partial<RuntimeOptions>): void {
+  Object.assign(runtimeOptions, options);
+}
+
+/**
+ * Modo no interactivo: no se muestran prompts
+ */
+export function isNonInteractive(): boolean {
+  return runtimeOptions.nonInteractive;
+}
+
+/**
+ * El usuario ha pasado --yes (o --non-interactive) de forma explícita
+ */
+export function isAssumeYes(): boolean {
+  return runtimeOptions.assumeYes;
+}
+
+/**
+ * Modo --json: stdout solo contiene eventos JSON
+ */
+export function isJsonOutput(): boolean {
+  return runtimeOptions.json;
+}
+
 /**
  * Imprime mensaje de éxito
  */
 export function printSuccess(message: string): void {
   console.log(colors.success(`✅ ${message}`));
+  emitDeployOutput(`✅ ${message}`);
 }
 
 /**
@@ -29,6 +83,7 @@ export function printSuccess(message: string): void {
  */
 export function printError(message: string): void {
   console.log(colors.error(`❌ ${message}`));
+  emitDeployOutput(`❌ ${message}`, 'stderr');
 }
 
 /**
@@ -36,6 +91,7 @@ export function printError(message: string): void {
  */
 export function printWarning(message: string): void {
   console.log(colors.warning(`⚠️  ${message}`));
+  emitDeployOutput(`⚠️  ${message}`);
 }
 
 /**
@@ -43,6 +99,7 @@ export function printWarning(message: string): void {
  */
 export function printInfo(message: string): void {
   console.log(colors.info(`ℹ️  ${message}`));
+  emitDeployOutput(`ℹ️  ${message}`);
 }
 
 /**
@@ -54,6 +111,7 @@ export function printHeader(title: string): void {
   console.log(colors.highlight(title));
   console.log(colors.highlight('========================================'));
   console.log('');
+  emitDeployOutput(`== ${title} ==`);
 }
 
 /**
@@ -85,10 +143,11 @@ export async function execCommand(
   options?: ExecaOptions
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   try {
-    const result = await execa(command, args, {
+    const result = await trackRunProcess(execa(command, args, {
       shell: true,
       ...options,
-    });
+    }));
+    recordCommandOutput(result);
 
     return {
       stdout: result.stdout,
@@ -96,6 +155,8 @@ export async function execCommand(
       exitCode: result.exitCode,
     };
   } catch (error: any) {
+    recordCommandOutput(error);
+
     return {
       stdout: error.stdout || '',
       stderr: error.stderr || error.message || '',
@@ -141,6 +202,12 @@ export async function sleep(ms: number): Promise<void> {
  * Pregunta de confirmación simple
  */
 export async function confirm(message: string, defaultValue = false): Promise<boolean> {
+  // Sin prompts en modo no interactivo: se usa el valor por defecto
+  if (isNonInteractive()) {
+    printInfo(`${message} -> ${defaultValue ? 'yes' : 'no'} (non-interactive)`);
+    return defaultValue;
+  }
+
   const readline = await import('readline');
   const rl = readline.createInterface({
     input: process.stdin,
@@ -148,6 +215,13 @@ export async function confirm(message: string, defaultValue = false): Promise<bo
   });
 
   return new Promise(resolve => {
+    // Ctrl+C durante la pregunta: se responde que no y se reenvia la señal al proceso
+    rl.on('SIGINT', () => {
+      rl.close();
+      resolve(false);
+      process.kill(process.pid, 'SIGINT');
+    });
+
     const defaultText = defaultValue ? '[Y/n]' : '[y/N]';
     rl.question(colors.info(`${message} ${defaultText}: `), answer => {
       rl.close();
@@ -233,10 +307,12 @@ export function printTable(headers: string[], rows: string[][]): void {
   console.log(colors.highlight(separator));
   console.log(colors.highlight(headerRow));
   console.log(colors.highlight(separator));
+  emitDeployOutput(headerRow);
 
   rows.forEach(row => {
     const rowStr = row.map((cell, i) => ` ${(cell || '').padEnd(columnWidths[i])} `).join('|');
     console.log(colors.white(rowStr));
+    emitDeployOutput(rowStr);
   });
 
   console.log(colors.highlight(separator));
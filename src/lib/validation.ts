@@ -1,11 +1,12 @@
 import { execa } from 'execa';
 import { existsSync } from 'fs';
-import { join } from 'path';
+import { join, relative } from 'path';
 import ora from 'ora';
-import { printError, printSuccess, printInfo, printWarning, colors, confirm } from './utils';
+import { printError, printSuccess, printInfo, printWarning, colors, confirm, isNonInteractive, isAssumeYes } from './utils';
 import { checkDockerDaemon, checkDockerComposeFile } from './docker';
 import { checkSSHConnection, type SSHOptions } from './ssh';
-import type { DeployConfig, Environment } from './config';
+import { getComposeConfig, getProjectPaths, getSSHConfig, type DeployConfig, type Environment } from './config';
+import { trackRunProcess } from './events';
 
 /**
  * Resultado de validacion
@@ -24,6 +25,10 @@ export interface ValidationOptions {
   skipBuild?: boolean;
   skipDocker?: boolean;
   skipSSH?: boolean;
+  /** Continuar con cambios sin commitear sin preguntar */
+  allowDirty?: boolean;
+  /** No ejecutar el build check (ni preguntar por el) */
+  skipBuildCheck?: boolean;
   environment?: Environment;
   deployType?: 'backend' | 'frontend' | 'full';
 }
@@ -31,7 +36,7 @@ export interface ValidationOptions {
 /**
  * Verifica el status de Git
  */
-export async function checkGitStatus(): Promise<ValidationResult> {
+export async function checkGitStatus(options: { allowDirty?: boolean } = {}): Promise<ValidationResult> {
   const spinner = ora('Checking git status...').start();
 
   try {
@@ -49,11 +54,18 @@ export async function checkGitStatus(): Promise<ValidationResult> {
       spinner.warn('Uncommitted changes detected');
       printWarning(`${uncommittedFiles} file(s) with uncommitted changes`);
 
-      const proceed = await confirm('Continue with uncommitted changes?', false);
-
-      if (!proceed) {
-        errors.push('Deployment cancelled - commit or stash your changes first');
+      if (options.allowDirty) {
+        printInfo('Continuing with uncommitted changes (--allow-dirty)');
+      } else if (isNonInteractive()) {
+        errors.push('Uncommitted changes - commit them or pass --allow-dirty');
         return { passed: false, errors, warnings };
+      } else {
+        const proceed = await confirm('Continue with uncommitted changes?', false);
+
+        if (!proceed) {
+          errors.push('Deployment cancelled - commit or stash your changes first');
+          return { passed: false, errors, warnings };
+        }
       }
     } else {
       spinner.succeed('Git status clean');
@@ -86,10 +98,10 @@ export async function checkBuildSuccess(cwd?: string): Promise<ValidationResult>
 
   try {
     // Try to build frontend
-    await execa('bun', ['run', 'build'], {
+    await trackRunProcess(execa('bun', ['run', 'build'], {
       cwd: cwd || join(process.cwd(), 'packages', 'frontend'),
       timeout: 120000, // 2 minutes
-    });
+    }));
 
     spinner.succeed('Build check passed');
 
@@ -116,8 +128,9 @@ export async function checkBuildSuccess(cwd?: string): Promise<ValidationResult>
 
 /**
  * Verifica Docker
+ * Con config se buscan los archivos compose configurados en su directorio
  */
-export async function checkDocker(cwd?: string): Promise<ValidationResult> {
+export async function checkDocker(cwd?: string, config?: DeployConfig): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -136,12 +149,14 @@ export async function checkDocker(cwd?: string): Promise<ValidationResult> {
 
   printSuccess('Docker daemon is running');
 
-  // Check docker-compose.yml existe
-  const backendPath = cwd || join(process.cwd(), 'packages', 'backend');
-  const hasComposeFile = await checkDockerComposeFile(backendPath);
+  // Check que existen los archivos compose
+  const composeDir = cwd || (config ? getProjectPaths(config).composeDir : join(process.cwd(), 'packages', 'backend'));
+  const { files } = getComposeConfig(config);
+  const hasComposeFile = await checkDockerComposeFile(composeDir, files);
+  const composeFiles = files.length > 0 ? files.join(', ') : 'Compose file';
 
   if (!hasComposeFile) {
-    errors.push('docker-compose.yml not found in packages/backend/');
+    errors.push(`${composeFiles} not found in ${relative(process.cwd(), composeDir) || '.'}/`);
 
     return {
       passed: false,
@@ -150,7 +165,7 @@ export async function checkDocker(cwd?: string): Promise<ValidationResult> {
     };
   }
 
-  printSuccess('docker-compose.yml found');
+  printSuccess(`${composeFiles} found`);
 
   return {
     passed: true,
@@ -255,7 +270,7 @@ export async function runPreDeployValidations(
 
   // 1. Git status
   if (!options.skipGit) {
-    const gitResult = await checkGitStatus();
+    const gitResult = await checkGitStatus({ allowDirty: options.allowDirty });
     allErrors.push(...gitResult.errors);
     allWarnings.push(...gitResult.warnings);
 
@@ -267,8 +282,11 @@ export async function runPreDeployValidations(
   // 2. Build check (solo para frontend y full deploys)
   const shouldCheckBuild = !options.skipBuild && options.deployType !== 'backend';
 
-  if (shouldCheckBuild) {
-    const proceed = await confirm('Run build check before deploy?', true);
+  if (shouldCheckBuild && options.skipBuildCheck) {
+    printInfo('Skipping build check (--skip-build-check)');
+  } else if (shouldCheckBuild) {
+    // En modo no interactivo el build check siempre se ejecuta
+    const proceed = isNonInteractive() || (await confirm('Run build check before deploy?', true));
 
     if (proceed) {
       const buildResult = await checkBuildSuccess();
@@ -276,7 +294,7 @@ export async function runPreDeployValidations(
       allWarnings.push(...buildResult.warnings);
 
       if (!buildResult.passed) {
-        const continueAnyway = await confirm('Build failed. Continue anyway?', false);
+        const continueAnyway = !isNonInteractive() && (await confirm('Build failed. Continue anyway?', false));
 
         if (!continueAnyway) {
           allErrors.push('Deployment cancelled due to build failure');
@@ -290,10 +308,12 @@ export async function runPreDeployValidations(
 
   // 3. Docker check (solo para deploys locales)
   if (!options.skipDocker) {
-    // Solo verificar Docker localmente si el deploy es local
-    // Para deploys remotos, Docker se ejecuta en el servidor
-    if (config.deployment.type === 'local') {
-      const dockerResult = await checkDocker();
+    // Solo verificar Docker localmente si el deploy es local o las imágenes se construyen aquí
+    // Para deploys remotos con build remoto, Docker se ejecuta en el servidor
+    const buildsLocally = (config.deployment.build || 'remote') !== 'remote' && options.deployType !== 'frontend';
+
+    if (config.deployment.type === 'local' || buildsLocally) {
+      const dockerResult = await checkDocker(undefined, config);
       allErrors.push(...dockerResult.errors);
       allWarnings.push(...dockerResult.warnings);
 
@@ -307,13 +327,11 @@ export async function runPreDeployValidations(
 
   // 4. SSH check (solo para remote)
   if (config.deployment.type === 'remote' && !options.skipSSH) {
-    const { vps_ip, ssh_user = 'root', ssh_key } = config.deployment;
+    const { vps_ip, host_alias } = config.deployment;
+    const sshConfig = vps_ip || host_alias ? getSSHConfig(config) : null;
 
-    if (vps_ip) {
-      const sshResult = await checkSSH({
-        target: `${ssh_user}@${vps_ip}`,
-        sshKey: ssh_key,
-      });
+    if (sshConfig) {
+      const sshResult = await checkSSH(sshConfig.options);
 
       allErrors.push(...sshResult.errors);
       allWarnings.push(...sshResult.warnings);
@@ -347,6 +365,17 @@ export async function confirmProductionDeploy(): Promise<boolean> {
   printWarning('WARNING: You are deploying to PRODUCTION!');
   console.log('');
 
+  // Sin prompts solo confirma un --yes explícito: detectar CI no basta
+  if (isNonInteractive()) {
+    if (!isAssumeYes()) {
+      printError('Production deploys need --yes in non-interactive mode');
+      throw new Error('Production deploy not confirmed: pass --yes');
+    }
+
+    printInfo('Production deploy confirmed (--yes)');
+    return true;
+  }
+
   const confirmed = await confirm('Are you ABSOLUTELY SURE you want to deploy to PRODUCTION?', false);
 
   if (!confirmed) {
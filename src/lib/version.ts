@@ -1,4 +1,4 @@
-import { executeRemoteCommand, type SSHOptions } from './ssh';
+import { executeRemoteCommand, remoteCommand, type SSHOptions } from './ssh';
 import { printInfo, printSuccess, printWarning, colors } from './utils';
 import { format } from 'date-fns';
 import type { Environment } from './config';
@@ -9,6 +9,8 @@ import type { DeploymentType } from './history';
  */
 export interface DeployedVersionInfo {
   commitHash: string;
+  /** Commit of the last deploy of the whole backend (the base of `deploy backend --changed`) */
+  backendCommitHash?: string;
   commitMessage?: string;
   timestamp: string;
   environment: Environment;
@@ -40,7 +42,7 @@ export async function writeDeployedVersion(options: WriteVersionOptions): Promis
   const base64Content = Buffer.from(content).toString('base64');
 
   const result = await executeRemoteCommand(
-    `echo '${base64Content}' | base64 -d > ${versionFile}`,
+    remoteCommand`echo ${base64Content} | base64 -d > ${versionFile}`,
     ssh
   );
 
@@ -59,7 +61,7 @@ export async function getDeployedVersion(
   const versionFile = `${remotePath}/.deployed-version`;
 
   const result = await executeRemoteCommand(
-    `cat ${versionFile} 2>/dev/null || echo ''`,
+    remoteCommand`cat ${versionFile} 2>/dev/null || echo ''`,
     ssh
   );
 
@@ -116,3 +118,20 @@ export async function getCurrentCommitMessage(): Promise<string | undefined> {
 export function getCurrentUser(): string {
   return process.env.USER || process.env.USERNAME || 'unknown';
 }
+
+/**
+ * Get files changed since a commit (committed and uncommitted), relative to cwd
+ * Returns null if the commit is not available in the local repository
+ */
+export async function getChangedFilesSince(
+  commitHash: string,
+  cwd: string = process.cwd()
+): Promise<string[] | null> {
+  try {
+    const { execa } = await import('execa');
+    const { stdout } = await execa('git', ['diff', '--name-only', '--relative', commitHash], { cwd });
+    return stdout.split('\n').map(f => f.trim()).filter(Boolean);
+  } catch {
+    return null;
+  }
+}